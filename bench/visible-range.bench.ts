@@ -0,0 +1,61 @@
+// 对比全量扫描和按列二分查找可见元素的耗时
+import { computeLayout, getColumnCount, getItemWidth, getVisibleLimits, getVisibleSpaces, getVisibleSpacesInColumns } from '../src/vue-virtual-waterfall/core'
+
+const containerWidth = 1440
+const viewHeight = 900
+// 每组数据模拟的滚动次数
+const scrollTimes = 2000
+
+// 固定种子的随机数，保证每次运行的数据一致
+let seed = 1
+const random = () => {
+    seed = (seed * 16807) % 2147483647
+    return seed / 2147483647
+}
+
+const columnCount = getColumnCount(containerWidth, { itemMinWidth: 220, minColumnCount: 2, maxColumnCount: 10 })
+const itemWidth = getItemWidth(containerWidth, columnCount, 15)
+
+const measure = (fn: () => void) => {
+    const start = performance.now()
+    fn()
+    return performance.now() - start
+}
+
+const rows: Record<string, string | number>[] = []
+
+for (const count of [1000, 10000, 50000, 100000]) {
+    const items = Array.from({ length: count }, (_, id) => ({ id, height: 150 + Math.floor(random() * 300) }))
+    const layout = computeLayout({ items, columnCount, itemWidth, gap: 15, calcItemHeight: item => item.height })
+    const height = Math.max(...layout.columnsTop)
+    const positions = Array.from({ length: scrollTimes }, () => random() * height)
+
+    let scanned = 0
+    let indexed = 0
+    const scanTime = measure(() => {
+        for (const top of positions) {
+            const [minLimit, maxLimit] = getVisibleLimits(top, viewHeight, [1, 1])
+            scanned += getVisibleSpaces(layout.spaces, minLimit, maxLimit).length
+        }
+    })
+    const indexTime = measure(() => {
+        for (const top of positions) {
+            const [minLimit, maxLimit] = getVisibleLimits(top, viewHeight, [1, 1])
+            indexed += getVisibleSpacesInColumns(layout.spaces, layout.columns, minLimit, maxLimit).length
+        }
+    })
+
+    if (scanned !== indexed) {
+        throw new Error(`visible count mismatch: ${scanned} !== ${indexed}`)
+    }
+
+    rows.push({
+        items: count,
+        columns: columnCount,
+        'scan (ms/scroll)': (scanTime / scrollTimes).toFixed(4),
+        'indexed (ms/scroll)': (indexTime / scrollTimes).toFixed(4),
+        speedup: `${(scanTime / indexTime).toFixed(1)}x`
+    })
+}
+
+console.table(rows)
@@ -1,10 +1,11 @@
 import './App.css'
-import { VirtualWaterfall } from './VirtualWaterfall'
+import { VirtualWaterfall } from '../../src/vue-virtual-waterfall/react'
 import Card, { type ItemOption } from './Card'
 import useWaterfall from './useWaterfall'
 
 function App() {
-  const { vw, backTop, waterfallOption, setWaterfallOption, data, calcItemHeight } = useWaterfall()
+  const { vw, backTop, waterfallOption, setWaterfallOption, data, calcItemHeight, loadMore } =
+    useWaterfall()
 
   return (
     <>
@@ -31,6 +32,27 @@ function App() {
             minColumnCount={waterfallOption.minColumnCount}
             items={data.list}
             calcItemHeight={calcItemHeight}
+            bottomDistance={waterfallOption.bottomDistance}
+            loading={waterfallOption.loading}
+            finished={data.end}
+            error={waterfallOption.error}
+            onLoadMore={loadMore}
+            renderLoading={() => <p className="footer">加载中...</p>}
+            renderFinished={() => <p className="footer">没有更多了</p>}
+            renderError={(retry) => (
+              <p className="footer">
+                加载失败，
+                <a
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault()
+                    retry()
+                  }}
+                >
+                  点击重试
+                </a>
+              </p>
+            )}
             renderItem={(item) => (
               <Card item={item} onlyImage={waterfallOption.onlyImage} />
             )}
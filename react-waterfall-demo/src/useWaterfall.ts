@@ -1,9 +1,10 @@
 import { useEffect, useRef, useState } from 'react'
-import type { VirtualWaterfallHandle } from './VirtualWaterfall'
+import type { VirtualWaterfallHandle } from '../../src/vue-virtual-waterfall/react'
 import type { ItemOption } from './Card'
 
 export interface WaterfallOption {
   loading: boolean
+  error: boolean
   bottomDistance: number
   onlyImage: boolean
   topPreloadScreenCount: number
@@ -58,6 +59,7 @@ export function useWaterfall() {
 
   const [waterfallOption, setWaterfallOption] = useState<WaterfallOption>({
     loading: false,
+    error: false,
     bottomDistance: 0,
     onlyImage: false,
     topPreloadScreenCount: 0,
@@ -113,21 +115,17 @@ export function useWaterfall() {
     }))
   }
 
-  const checkScrollPosition = async () => {
-    const option = optionRef.current ?? waterfallOption
-    if (option.loading) return
-    const scrollHeight = document.documentElement.scrollHeight
-    const scrollTop = document.documentElement.scrollTop
-    const clientHeight = document.documentElement.clientHeight
-    const distanceFromBottom = scrollHeight - scrollTop - clientHeight
-    if (distanceFromBottom <= option.bottomDistance) {
-      setWaterfallOption((prev) => ({ ...prev, loading: true }))
+  // 加载更多，由瀑布流组件在滚动到底部时触发
+  const loadMore = async () => {
+    setWaterfallOption((prev) => ({ ...prev, loading: true, error: false }))
+    try {
       await loadData()
+    } catch (error) {
+      console.error(error)
+      setWaterfallOption((prev) => ({ ...prev, error: true }))
+    } finally {
       setWaterfallOption((prev) => ({ ...prev, loading: false }))
     }
-    requestAnimationFrame(() => {
-      void checkScrollPosition()
-    })
   }
 
   useEffect(() => {
@@ -136,22 +134,12 @@ export function useWaterfall() {
       'position:absolute;visibility:hidden;pointer-events:none;box-sizing:border-box;'
     document.body.appendChild(measureDom)
 
-    const init = async () => {
-      setWaterfallOption((prev) => ({ ...prev, loading: true }))
-      await loadData()
-      setWaterfallOption((prev) => ({ ...prev, loading: false }))
-      void checkScrollPosition()
-    }
-
-    void init()
-
     return () => {
       if (measureDom && measureDom.parentElement) {
         measureDom.parentElement.removeChild(measureDom)
       }
       measureDom = null
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
   const calcItemHeight = (item: ItemOption, itemWidth: number) => {
@@ -170,6 +158,7 @@ export function useWaterfall() {
     data,
     setData,
     calcItemHeight,
+    loadMore,
   }
 }
 
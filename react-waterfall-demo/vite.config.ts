@@ -4,4 +4,14 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // 组件位于上层目录，上层也安装了 react，保证只使用 demo 中的一份
+    dedupe: ['react', 'react-dom'],
+  },
+  server: {
+    fs: {
+      // 组件和布局核心位于上层的 src/vue-virtual-waterfall
+      allow: ['..'],
+    },
+  },
 })
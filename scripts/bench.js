@@ -0,0 +1,30 @@
+// 运行 bench 目录下的基准测试: pnpm bench [文件名]
+// 借助 vite 直接加载 ts 文件，不需要额外的依赖
+import { readdirSync } from 'node:fs'
+import { createServer } from 'vite'
+
+const files = process.argv.slice(2)
+const benches = files.length ? files : readdirSync('bench').filter(file => file.endsWith('.bench.ts'))
+
+const server = await createServer({
+    configFile: false,
+    appType: 'custom',
+    logLevel: 'error',
+    // 基准测试不需要预构建依赖
+    optimizeDeps: {
+        noDiscovery: true,
+        include: []
+    },
+    server: {
+        middlewareMode: true
+    }
+})
+
+try {
+    for (const bench of benches) {
+        console.log(`\n# ${bench}\n`)
+        await server.ssrLoadModule(`/bench/${bench}`)
+    }
+} finally {
+    await server.close()
+}
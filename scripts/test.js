@@ -0,0 +1,31 @@
+// 运行 test 目录下的测试: pnpm test [文件名]
+// 借助 vite 直接加载 ts / vue 文件，测试使用 node 内置的 node:test 和 node:assert，不需要额外的依赖
+import { readdirSync } from 'node:fs'
+import { createServer } from 'vite'
+import vue from '@vitejs/plugin-vue'
+
+const files = process.argv.slice(2)
+const tests = files.length ? files : readdirSync('test').filter(file => file.endsWith('.test.ts'))
+
+const server = await createServer({
+    configFile: false,
+    appType: 'custom',
+    logLevel: 'error',
+    plugins: [vue()],
+    // 测试不需要预构建依赖
+    optimizeDeps: {
+        noDiscovery: true,
+        include: []
+    },
+    server: {
+        middlewareMode: true
+    }
+})
+
+try {
+    for (const test of tests) {
+        await server.ssrLoadModule(`/test/${test}`)
+    }
+} finally {
+    await server.close()
+}
@@ -1,31 +1,9 @@
-import { reactive, render, h, onMounted, onUnmounted, useTemplateRef } from 'vue'
-import Card from './Card.vue'
-import type { VirtualWaterfall } from '../vue-virtual-waterfall'
-
-// 创建一个可复用的 DOM 容器
-let measureDom: HTMLDivElement;
-
-// 计算真实高度，这里只计算除了图片的高度
-function getRealHeight(item: ItemOption, realWidth: number) {
-
-    render(
-        h(Card, {
-            item: item,
-            width: realWidth + 'px',
-            noImage: true
-        }),
-        measureDom
-    )
-
-    // 获取高度
-    const height: number = measureDom.firstElementChild!.clientHeight
-    // 返回高度
-    return height
-}
+import { reactive, useTemplateRef } from 'vue'
+import type { Breakpoints, ItemSpan, PlacementStrategy, ScrollDirection, VirtualWaterfallExpose } from '../vue-virtual-waterfall'
 
 const useWaterfall = () => {
 
-    const vw = useTemplateRef<InstanceType<typeof VirtualWaterfall>>('vw')
+    const vw = useTemplateRef<VirtualWaterfallExpose<ItemOption>>('vw')
 
     const backTop = () => {
         window.scrollTo({
@@ -36,28 +14,29 @@ const useWaterfall = () => {
 
     // 滚动到指定元素的位置
     const scrollTo = (id: number) => {
-        vw.value.withItemSpaces((spaces) => {
-            for (const space of spaces) {
-                // 找到你想滚动到的元素
-                if (space.item.id === id) {
-                    const top = space.top;
-                    // 执行滚动
-                    window.scrollTo({
-                        top: top,
-                        behavior: 'smooth'
-                    })
-                    return;
-                }
-            }
+        return vw.value.scrollToKey(id, {
+            behavior: 'smooth'
         })
     }
 
     // 瀑布流的一些属性
     const waterfallOption = reactive({
+        // 布局模式，等高行模式中item的宽高比取自数据中图片的宽高
+        mode: 'waterfall' as 'waterfall' | 'justified',
+        // 滚动方向，横向滚动时只展示图片
+        direction: 'vertical' as ScrollDirection,
         loading: false,
+        error: false,
         bottomDistance: 0,
         // 是否只展示图片，这是自定义加的一个属性
         onlyImage: false,
+        // 是否按容器宽度使用下面的断点
+        responsive: false,
+        // 是否让部分元素跨列展示
+        featured: false,
+        placement: 'shortest' as PlacementStrategy,
+        // 布局变化时是否播放过渡动画
+        transition: false,
         topPreloadScreenCount: 0,
         bottomPreloadScreenCount: 0,
         virtual: true,
@@ -69,17 +48,29 @@ const useWaterfall = () => {
         maxColumnCount: 10
     })
 
+    // 响应式断点：手机2列，平板4列，桌面6列，开启后会覆盖间隔、填充和最小宽度
+    const breakpoints: Breakpoints = {
+        0: { columns: 2, gap: 8, padding: 8 },
+        768: { columns: 4, gap: 12, padding: 12 },
+        1200: { columns: 6, gap: 20, padding: 20 }
+    }
+
     // 瀑布流元素高度的计算函数
+    // 图片的高度可以直接算出来，文字部分先按预估高度处理，渲染后由组件自动测量真实高度
+    // 横向滚动时传入的是行高，返回元素的宽度
     const calcItemHeight = (item: ItemOption, itemWidth: number) => {
-        let height = 0
-        // 当包含图文时，需要单独计算文字部分的高度
-        // 文字部分的高度 + 图片的高度 = 真实高度
-        if (!waterfallOption.onlyImage) {
-            height = getRealHeight(item, itemWidth)
+        if (waterfallOption.direction === 'horizontal') {
+            return item.width * (itemWidth / item.height)
         }
+        const height = waterfallOption.onlyImage ? 0 : 72
         return item.height * (itemWidth / item.width) + height
     }
 
+    // 每隔一段展示一个跨两列的元素，模拟推荐卡片
+    const calcItemSpan = (item: ItemOption, index: number): ItemSpan => {
+        return index % 12 === 5 ? 2 : 1
+    }
+
     // 需要展示数据的属性
     const data = reactive({
         page: 0,
@@ -107,45 +98,31 @@ const useWaterfall = () => {
         data.list = [...data.list, ...result.list]
     }
 
-    // 检查是否加载更多
-    const checkScrollPosition = async () => {
-        if (waterfallOption.loading) {
-            return
-        }
-
-        const scrollHeight = document.documentElement.scrollHeight
-        const scrollTop = document.documentElement.scrollTop
-        const clientHeight = document.documentElement.clientHeight
-
-        const distanceFromBottom = scrollHeight - scrollTop - clientHeight
-
-        // 不大于最小底部距离就加载更多
-        if (distanceFromBottom <= waterfallOption.bottomDistance) {
-            waterfallOption.loading = true
+    // 加载更多，由瀑布流组件在滚动到底部时触发
+    const loadMore = async () => {
+        waterfallOption.loading = true
+        waterfallOption.error = false
+        try {
             await loadData()
+        } catch (error) {
+            console.error(error)
+            // 加载失败时回退页码，重试时重新加载这一页
+            data.page -= 1
+            waterfallOption.error = true
+        } finally {
             waterfallOption.loading = false
         }
-
-        requestAnimationFrame(checkScrollPosition)
     }
 
-    onMounted(async () => {
-        measureDom = document.createElement('div');
-        // 将其设置为不可见，避免影响布局或用户体验
-        measureDom.style.cssText = 'position: absolute; visibility: hidden; pointer-events: none;';
-        document.body.appendChild(measureDom); // 在应用启动时添加到 body 一次
-        await checkScrollPosition()
-    })
-
-    onUnmounted(() => {
-        document.body.removeChild(measureDom);
-    })
     return {
         vw,
         backTop,
         waterfallOption,
+        breakpoints,
         data,
-        calcItemHeight
+        calcItemHeight,
+        calcItemSpan,
+        loadMore
     }
 }
 
@@ -0,0 +1,45 @@
+// 响应式断点：根据容器宽度(而不是窗口宽度)切换布局参数，不依赖 Vue / React
+
+export interface BreakpointOption {
+    // 固定列数，不设置时根据 itemMinWidth 计算
+    columns?: number
+    // item间隔
+    gap?: number
+    // 容器内边距
+    padding?: number | string
+    // item最小宽度
+    itemMinWidth?: number
+}
+
+// 断点: 容器最小宽度 -> 布局参数
+// 例如 { 0: { columns: 2, gap: 8 }, 768: { columns: 4 }, 1200: { columns: 6, gap: 20 } }
+export type Breakpoints = Record<number, BreakpointOption>
+
+// 获取容器宽度对应的布局参数
+// 和 CSS 的 min-width 一样从小到大依次生效，较大断点中设置的参数覆盖较小断点中的参数
+export function resolveBreakpoint(containerWidth: number, breakpoints?: Breakpoints | null): BreakpointOption {
+    const result: BreakpointOption = {}
+    if (!breakpoints) {
+        return result
+    }
+    const widths = Object.keys(breakpoints)
+        .map(Number)
+        .filter(width => !Number.isNaN(width) && width <= containerWidth)
+        .sort((a, b) => a - b)
+    for (const width of widths) {
+        const { columns, gap, padding, itemMinWidth } = breakpoints[width]
+        if (columns !== undefined) {
+            result.columns = columns
+        }
+        if (gap !== undefined) {
+            result.gap = gap
+        }
+        if (padding !== undefined) {
+            result.padding = padding
+        }
+        if (itemMinWidth !== undefined) {
+            result.itemMinWidth = itemMinWidth
+        }
+    }
+    return result
+}
@@ -0,0 +1,127 @@
+// 分组瀑布流：把分组展开成一个列表，不依赖 Vue / React
+// 每组的标题是占满整行的元素，跨列元素会从所有列的最低处开始放置，因此每组的item都从标题下方重新开始排列
+import type { ItemSpan } from './layout'
+import type { SpaceStore } from './store'
+
+export interface WaterfallGroup<T = any> {
+    // 分组的唯一标识，没有时使用分组的索引
+    key?: string | number
+    // 这一组的数据
+    items: readonly T[]
+    // 标题中使用的其他字段，例如日期、分类名称
+    [field: string]: any
+}
+
+// 标题的高度：固定值，或者按分组计算，横向滚动时为标题的宽度
+export type GroupHeaderHeight<G extends WaterfallGroup = WaterfallGroup> = number | ((group: G, groupIndex: number) => number)
+
+export interface GroupedItems<T = any, G extends WaterfallGroup<T> = WaterfallGroup<T>> {
+    // 展开后的列表：每组的标题(分组对象本身)后面跟着这一组的item
+    items: (T | G)[]
+    // 每组标题在展开后的列表中的索引，从小到大排列
+    headers: number[]
+    // 标题元素(分组对象) -> 分组的索引，用于区分标题和item
+    groups: Map<unknown, number>
+}
+
+// 展开分组，分组对象直接作为标题元素，分组不变时标题可以复用之前的布局
+export function flattenGroups<T, G extends WaterfallGroup<T>>(groups: readonly G[]): GroupedItems<T, G> {
+    const items: (T | G)[] = []
+    const headers: number[] = []
+    const indexes = new Map<unknown, number>()
+    groups.forEach((group, groupIndex) => {
+        headers.push(items.length)
+        indexes.set(group, groupIndex)
+        items.push(group)
+        for (const item of group.items) {
+            items.push(item)
+        }
+    })
+    return { items, headers, groups: indexes }
+}
+
+// 元素是否是分组的标题，是时返回分组的索引，否则返回 -1
+export function getGroupHeaderIndex(grouped: GroupedItems, item: unknown): number {
+    return grouped.groups.get(item) ?? -1
+}
+
+// 标题元素的key，加上前缀避免和item的key重复，可以序列化
+export function getGroupKey(group: WaterfallGroup, groupIndex: number): string {
+    return `group:${group.key ?? groupIndex}`
+}
+
+// 展开后的列表中索引为 index 的元素所在的分组，index 在第一个标题之前时返回 -1
+export function findGroupIndex(headers: readonly number[], index: number): number {
+    // 二分查找最后一个 <= index 的标题
+    let low = 0
+    let high = headers.length
+    while (low < high) {
+        const mid = (low + high) >>> 1
+        if (headers[mid] <= index) {
+            low = mid + 1
+        } else {
+            high = mid
+        }
+    }
+    return low - 1
+}
+
+// 分组模式中计算高度的方法：标题使用 headerHeight，item使用 calc
+// getHeaderIndex 每次调用时读取最新的分组，分组变化时计算方法不变，之前的布局仍然可以作为缓存
+export function createGroupItemHeight<T>(
+    getHeaderIndex: (item: T) => number,
+    headerHeight: GroupHeaderHeight,
+    calc: (item: T, itemWidth: number) => number
+): (item: T, itemWidth: number) => number {
+    return (item, itemWidth) => {
+        const groupIndex = getHeaderIndex(item)
+        if (groupIndex < 0) {
+            return calc(item, itemWidth)
+        }
+        return typeof headerHeight === 'function' ? headerHeight(item as WaterfallGroup, groupIndex) : headerHeight
+    }
+}
+
+// 分组模式中计算列数的方法：标题占满整行，item使用 calc
+export function createGroupItemSpan<T>(
+    getHeaderIndex: (item: T) => number,
+    calc: ((item: T, index: number) => ItemSpan) | undefined
+): (item: T, index: number) => ItemSpan {
+    return (item, index) => (getHeaderIndex(item) >= 0 ? 'full' : calc ? calc(item, index) : 1)
+}
+
+// 吸顶的标题
+export interface StickyHeader {
+    // 分组的索引
+    groupIndex: number
+    // 标题在展开后的列表中的索引
+    index: number
+    // 标题吸顶时的位置，下一组的标题到达时被向上推出
+    top: number
+}
+
+// 视口顶部所在的分组的标题：标题已经滚出视口顶部时让它停留在视口顶部，没有时返回 undefined
+// contentSize: 所有item占据的大小(getContainerHeight)，最后一组的标题不会超出内容的底部
+export function getStickyHeader(spaces: SpaceStore, headers: readonly number[], viewStart: number, contentSize: number): StickyHeader | undefined {
+    // 标题占满整行，top 随索引单调递增，二分查找最后一个 top <= viewStart 的标题
+    let low = 0
+    let high = headers.length
+    while (low < high) {
+        const mid = (low + high) >>> 1
+        if (headers[mid] < spaces.length && spaces.top(headers[mid]) <= viewStart) {
+            low = mid + 1
+        } else {
+            high = mid
+        }
+    }
+    const groupIndex = low - 1
+    if (groupIndex < 0) {
+        return undefined
+    }
+    const index = headers[groupIndex]
+    const next = headers[groupIndex + 1]
+    const end = next !== undefined && next < spaces.length ? spaces.top(next) : contentSize
+    // 不会超过分组的起点，也不会和下一组的标题重叠
+    const top = Math.max(spaces.top(index), Math.min(viewStart, end - spaces.height(index)))
+    return { groupIndex, index, top }
+}
@@ -0,0 +1,108 @@
+// 图片模式：按图片的宽高比预留位置，只加载渲染范围内的图片，不依赖 Vue / React
+// 尺寸未知的图片先使用预估大小，加载完成后按真实尺寸重新布局一次
+import type { ScrollDirection } from './scroll'
+
+export interface ItemImage {
+    // 图片地址
+    src: string
+    // 图片的原始宽高，只用于计算宽高比，未知时不传
+    width?: number
+    height?: number
+    alt?: string
+    // 图片之外额外的高度(例如图片下方的标题)，item的高度为图片高度加上它，justified 模式中不生效
+    extraHeight?: number
+}
+
+export interface ImageSize {
+    width: number
+    height: number
+}
+
+// 从item中获取图片，返回空值表示这个item没有图片
+export type GetItemImage<T = any> = (item: T) => ItemImage | null | undefined
+
+// 已经加载的图片的真实尺寸: src -> 尺寸
+export type ImageSizeCache = Map<string, ImageSize>
+
+function isValidSize(width: number | undefined, height: number | undefined): boolean {
+    return !!width && !!height && width > 0 && height > 0
+}
+
+// 图片自己是否带有尺寸，不带尺寸的图片需要等加载完成后才知道宽高比
+export function hasImageSize(image: ItemImage | null | undefined): boolean {
+    return !!image && isValidSize(image.width, image.height)
+}
+
+// 图片的宽高比(宽 / 高)，优先使用图片自己的尺寸，其次使用加载得到的真实尺寸，都没有时返回 undefined
+export function getImageRatio(image: ItemImage | null | undefined, sizes?: ImageSizeCache): number | undefined {
+    if (!image) {
+        return undefined
+    }
+    if (hasImageSize(image)) {
+        return image.width! / image.height!
+    }
+    const size = sizes?.get(image.src)
+    return size && isValidSize(size.width, size.height) ? size.width / size.height : undefined
+}
+
+// 图片之外额外的高度，没有设置或者不合法时为 0
+export function getImageExtraHeight(image: ItemImage | null | undefined): number {
+    const extra = image?.extraHeight
+    return extra && extra > 0 ? extra : 0
+}
+
+// 图片模式中计算item高度的方法：纵向滚动时按宽度计算高度，横向滚动时按行高计算宽度
+// 额外的高度加在图片高度上，横向滚动时从行高中减去后再计算图片宽度
+// 宽高比未知时使用 fallback 的预估值
+export function createImageItemHeight<T>(
+    getImage: GetItemImage<T>,
+    sizes: ImageSizeCache,
+    direction: ScrollDirection,
+    fallback: (item: T, itemWidth: number) => number
+): (item: T, itemWidth: number) => number {
+    return (item, itemWidth) => {
+        const image = getImage(item)
+        const ratio = getImageRatio(image, sizes)
+        if (!ratio) {
+            return fallback(item, itemWidth)
+        }
+        const extra = getImageExtraHeight(image)
+        return direction === 'horizontal' ? Math.max(itemWidth - extra, 0) * ratio : itemWidth / ratio + extra
+    }
+}
+
+// 图片模式中 justified 布局计算宽高比的方法，宽高比未知时使用 fallback 的预估值
+export function createImageItemRatio<T>(
+    getImage: GetItemImage<T>,
+    sizes: ImageSizeCache,
+    fallback: (item: T, index: number) => number
+): (item: T, index: number) => number {
+    return (item, index) => getImageRatio(getImage(item), sizes) ?? fallback(item, index)
+}
+
+// 图片是否在需要加载的范围内：和视口(包含预加载屏)相交，limits 为 getVisibleLimits 的结果
+export function isImageInRange(space: { top: number; bottom: number }, limits: readonly [number, number] | undefined): boolean {
+    return !!limits && space.bottom >= limits[0] && space.top <= limits[1]
+}
+
+// 图片元素的样式：撑满item中额外高度之外的部分，额外的高度留给之后的插槽内容
+// fill 为 false 时(测量真实高度)按宽高比占据高度
+export function getImageStyle(ratio: number | undefined, fill: boolean, extraHeight = 0) {
+    return {
+        display: 'block',
+        width: '100%',
+        height: fill ? (extraHeight ? `calc(100% - ${extraHeight}px)` : '100%') : 'auto',
+        aspectRatio: !fill && ratio ? `${ratio}` : undefined,
+        objectFit: 'cover' as const
+    }
+}
+
+// 图片加载完成后记录真实尺寸，返回是否需要重新布局
+// 图片自己没有带尺寸时，item可能是在尺寸未知时布局的，使用的是预估值
+export function recordImageSize(image: ItemImage | null | undefined, element: HTMLImageElement, sizes: ImageSizeCache): boolean {
+    if (!image || hasImageSize(image) || !isValidSize(element.naturalWidth, element.naturalHeight)) {
+        return false
+    }
+    sizes.set(image.src, { width: element.naturalWidth, height: element.naturalHeight })
+    return true
+}
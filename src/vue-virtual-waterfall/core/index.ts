@@ -0,0 +1,15 @@
+export * from './breakpoints'
+export * from './groups'
+export * from './justified'
+export * from './image'
+export * from './layout'
+export * from './measure'
+export * from './navigation'
+export * from './placement'
+export * from './range'
+export * from './scroll'
+export * from './snapshot'
+export * from './store'
+export * from './transition'
+export * from './visibility'
+export * from './worker'
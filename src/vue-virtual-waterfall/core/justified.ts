@@ -0,0 +1,169 @@
+// 等高行布局(justified)：每行的元素高度相同、宽度由宽高比决定，整行撑满容器宽度，不依赖 Vue / React
+import { createEmptySpaceStore, createSpaceWriter, type SpaceStore } from './store'
+
+export interface JustifiedLayoutOption<T = any> {
+    // 数据
+    items: readonly T[]
+    // 容器宽度(不包含内边距)
+    containerWidth: number
+    // 目标行高，实际行高会在它附近浮动，让每行刚好撑满容器宽度
+    rowHeight: number
+    // item间隔
+    gap: number
+    // 计算单个item的宽高比(宽 / 高)
+    calcItemRatio: (item: T, index: number) => number
+}
+
+export interface JustifiedLayoutState<T = any> {
+    // 每个item占据的空间，所有item都属于第0列
+    spaces: SpaceStore<T>
+    // 只有一列：下一行的top位置
+    columnsTop: number[]
+    // 只有一列：按顺序包含所有元素的索引，同一行的元素top相同，可以和瀑布流一样查找可见元素
+    columns: number[][]
+    // 计算布局时使用的参数，参数变化后缓存失效
+    containerWidth: number
+    rowHeight: number
+    gap: number
+    calcItemRatio: (item: T, index: number) => number
+}
+
+// 是否是等高行布局的结果
+export function isJustifiedLayout(state: object): state is JustifiedLayoutState {
+    return 'rowHeight' in state
+}
+
+function isCacheValid<T>(option: JustifiedLayoutOption<T>, cache: JustifiedLayoutState<T>): boolean {
+    return (
+        cache.containerWidth === option.containerWidth &&
+        cache.rowHeight === option.rowHeight &&
+        cache.gap === option.gap &&
+        cache.calcItemRatio === option.calcItemRatio
+    )
+}
+
+function createIndexes(length: number): number[] {
+    const indexes: number[] = new Array(length)
+    for (let i = 0; i < length; i++) {
+        indexes[i] = i
+    }
+    return indexes
+}
+
+// 计算等高行布局
+// 依次把元素放入当前行，放入后整行撑满容器时的行高不大于目标行高，说明这一行已经放满，
+// 这时比较放入和不放入最后一个元素时的行高，取更接近目标行高的一种；最后一行不拉伸，使用目标行高
+// 传入上一次的结果时，从第一个发生变化的元素所在的行开始重新计算
+// invalid: 需要重新计算宽高比的元素索引(上一次结果中的索引)
+export function computeJustifiedLayout<T>(
+    option: JustifiedLayoutOption<T>,
+    cache?: JustifiedLayoutState<T>,
+    invalid?: Iterable<number>
+): JustifiedLayoutState<T> {
+    const { items, containerWidth, rowHeight, gap, calcItemRatio } = option
+    const length = items.length
+
+    if (!containerWidth || !length) {
+        return {
+            spaces: createEmptySpaceStore<T>(),
+            columnsTop: [0],
+            columns: [[]],
+            containerWidth,
+            rowHeight,
+            gap,
+            calcItemRatio
+        }
+    }
+
+    let start = 0
+    let top = 0
+    const valid = cache && isCacheValid(option, cache)
+
+    if (valid) {
+        const cached = cache.spaces
+        const min = Math.min(length, cached.length)
+        while (start < min && items[start] === cached.item(start)) {
+            start++
+        }
+        for (const index of invalid ?? []) {
+            if (index >= 0 && index < start) {
+                start = index
+            }
+        }
+        if (start === length && length === cached.length) {
+            return cache
+        }
+        // 从上一个元素所在行的开头重新计算：元素变化会影响整行，新增元素时最后一行可能还没有放满
+        if (start > 0) {
+            const rowTop = cached.top(start - 1)
+            start--
+            while (start > 0 && cached.top(start - 1) === rowTop) {
+                start--
+            }
+            top = rowTop
+        }
+    }
+
+    // 复用 start 之前的元素
+    const spaces = createSpaceWriter(valid ? cache.spaces : undefined, start, length)
+
+    const ratios: number[] = new Array(length)
+    // 当前行的元素
+    let row: number[] = []
+    // 当前行元素的宽高比之和
+    let rowRatio = 0
+
+    // 以指定的行高放置当前行
+    const layoutRow = (height: number) => {
+        let left = 0
+        for (const index of row) {
+            const width = ratios[index] * height
+            spaces.set(index, items[index], 0, 1, top, left, height, width)
+            left += width + gap
+        }
+        top += height + gap
+        row = []
+        rowRatio = 0
+    }
+
+    for (let i = start; i < length; i++) {
+        if (ratios[i] === undefined) {
+            // 宽高比无效时按正方形处理
+            ratios[i] = calcItemRatio(items[i], i) || 1
+        }
+        const ratio = ratios[i]
+        // 放入当前元素后，整行撑满容器时的行高
+        const height = (containerWidth - row.length * gap) / (rowRatio + ratio)
+        if (height > rowHeight) {
+            row.push(i)
+            rowRatio += ratio
+            continue
+        }
+        if (row.length) {
+            // 不放入当前元素时的行高
+            const heightWithout = (containerWidth - (row.length - 1) * gap) / rowRatio
+            if (heightWithout - rowHeight < rowHeight - height) {
+                layoutRow(heightWithout)
+                // 当前元素放到下一行重新处理
+                i--
+                continue
+            }
+        }
+        row.push(i)
+        layoutRow(height)
+    }
+    // 最后一行没有放满，不拉伸
+    if (row.length) {
+        layoutRow(rowHeight)
+    }
+
+    return {
+        spaces: spaces.finish(length),
+        columnsTop: [top],
+        columns: [createIndexes(length)],
+        containerWidth,
+        rowHeight,
+        gap,
+        calcItemRatio
+    }
+}
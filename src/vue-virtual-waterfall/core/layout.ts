@@ -0,0 +1,441 @@
+// 瀑布流布局核心：纯函数实现，不依赖 Vue / React，可以在任意环境中使用
+import { getPlacementColumn, getSpanTop, type Placement } from './placement'
+import { createEmptySpaceStore, createSpaceWriter, type SpaceStore } from './store'
+
+// 元素空间信息
+export interface SpaceOption<T = any> {
+    // 索引
+    index: number
+    // 原始数据
+    item: T
+    // 元素所属列，跨列元素为最左侧的列
+    column: number
+    // 元素占据的列数
+    columnSpan: number
+    // 元素左上角绝对定位top位置
+    top: number
+    // 元素左上角绝对定位left位置
+    left: number
+    // 元素左下角绝对定位bottom位置
+    bottom: number
+    // 元素真实高度
+    height: number
+    // 元素宽度，跨列元素包含中间的间隔
+    width: number
+}
+
+// 元素占据的列数：数字或者 'full'(占满整行)
+export type ItemSpan = number | 'full'
+
+export interface ColumnOption {
+    // item最小宽度
+    itemMinWidth: number
+    // 最大列数
+    maxColumnCount: number
+    // 最小列数
+    minColumnCount: number
+}
+
+export interface LayoutOption<T = any> {
+    // 数据
+    items: readonly T[]
+    // 列数
+    columnCount: number
+    // 每个item的宽度
+    itemWidth: number
+    // item间隔
+    gap: number
+    // 计算单个item高度的方法，跨列元素传入的是跨列后的宽度
+    calcItemHeight: (item: T, itemWidth: number) => number
+    // 计算单个item占据的列数，不传时每个item占据一列
+    calcItemSpan?: (item: T, index: number) => ItemSpan
+    // 放置策略，默认放到高度最小的列
+    placement?: Placement<T>
+    // 获取item的唯一标识，数据变化时已有的item尽量保持在原来的列
+    getItemKey?: (item: T, index: number) => unknown
+}
+
+export interface LayoutState<T = any> {
+    // 每个item占据的空间
+    spaces: SpaceStore<T>
+    // 每列距离顶部的距离
+    columnsTop: number[]
+    // 每列包含的元素索引，按从上到下的顺序排列
+    columns: number[][]
+    // 计算布局时使用的参数，参数变化后缓存失效
+    itemWidth: number
+    gap: number
+    calcItemHeight: (item: T, itemWidth: number) => number
+    calcItemSpan?: (item: T, index: number) => ItemSpan
+    placement: Placement<T>
+}
+
+// 元素的尺寸，计算布局时使用
+interface ItemSize {
+    // 上一次布局中该元素的索引
+    old: number | undefined
+    columnSpan: number
+    width: number
+    height: number
+}
+
+// 计算列数
+export function getColumnCount(containerWidth: number, option: ColumnOption): number {
+    if (!containerWidth) {
+        return 0
+    }
+    if (containerWidth >= option.itemMinWidth * 2) {
+        const count = Math.floor(containerWidth / option.itemMinWidth)
+        if (option.maxColumnCount && count > option.maxColumnCount) {
+            return option.maxColumnCount
+        }
+        return count
+    }
+    return option.minColumnCount
+}
+
+// 计算每个item占据的宽度: (容器宽度 - 间隔) / 列数
+export function getItemWidth(containerWidth: number, columnCount: number, gap: number): number {
+    if (!containerWidth || columnCount <= 0) {
+        return 0
+    }
+    // 列之间的间隔
+    const totalGap = (columnCount - 1) * gap
+
+    return Math.ceil((containerWidth - totalGap) / columnCount)
+}
+
+// 按列数估计的最小容器宽度: 每列都是最小宽度，用于只知道列数、不知道容器宽度的情况
+export function getMinContainerWidth(columnCount: number, itemMinWidth: number, gap: number): number {
+    if (columnCount <= 0) {
+        return 0
+    }
+    return columnCount * itemMinWidth + (columnCount - 1) * gap
+}
+
+// 元素实际占据的列数，限制在 [1, 列数] 之间
+export function getColumnSpan(span: ItemSpan | undefined, columnCount: number): number {
+    if (span === 'full') {
+        return columnCount
+    }
+    if (!span || span < 1) {
+        return 1
+    }
+    return Math.min(Math.floor(span), columnCount)
+}
+
+// 跨列元素的宽度：占据的列宽加上中间的间隔
+export function getSpanWidth(itemWidth: number, columnSpan: number, gap: number): number {
+    return itemWidth * columnSpan + gap * (columnSpan - 1)
+}
+
+function createColumns(columnCount: number): number[][] {
+    const columns: number[][] = new Array(columnCount)
+    for (let i = 0; i < columnCount; i++) {
+        columns[i] = []
+    }
+    return columns
+}
+
+// 容器高度：最高那一列的高度
+export function getContainerHeight(columnsTop: readonly number[]): number {
+    return columnsTop.length ? Math.max(...columnsTop) : 0
+}
+
+// 列中索引小于 index 的元素数量
+function countBefore(column: readonly number[], index: number): number {
+    let low = 0
+    let high = column.length
+    while (low < high) {
+        const mid = (low + high) >>> 1
+        if (column[mid] < index) {
+            low = mid + 1
+        } else {
+            high = mid
+        }
+    }
+    return low
+}
+
+// 缓存是否可以复用：列数和计算参数都没有变化
+function isCacheValid<T>(option: LayoutOption<T>, cache: LayoutState<T>): boolean {
+    return (
+        cache.columnsTop.length === option.columnCount &&
+        cache.itemWidth === option.itemWidth &&
+        cache.gap === option.gap &&
+        cache.calcItemHeight === option.calcItemHeight &&
+        cache.calcItemSpan === option.calcItemSpan &&
+        cache.placement === (option.placement ?? 'shortest')
+    )
+}
+
+// 计算布局
+// 传入上一次的结果时，只从第一个发生变化的位置开始重新计算，之前的元素直接复用
+// invalid: 需要重新计算高度的元素索引(上一次结果中的索引)
+// 数据和参数都没有变化时，直接返回传入的缓存
+export function computeLayout<T>(option: LayoutOption<T>, cache?: LayoutState<T>, invalid?: Iterable<number>): LayoutState<T> {
+    const { items, columnCount, itemWidth, gap, calcItemHeight, calcItemSpan, placement = 'shortest', getItemKey } = option
+    const length = items.length
+
+    if (!columnCount || !length) {
+        return {
+            spaces: createEmptySpaceStore<T>(),
+            columnsTop: new Array(columnCount).fill(0),
+            columns: createColumns(columnCount),
+            itemWidth,
+            gap,
+            calcItemHeight,
+            calcItemSpan,
+            placement
+        }
+    }
+
+    let start = 0
+    let columnsTop: number[]
+    let columns: number[][]
+    // 上一次结果中，从 start 开始的元素: key -> 索引
+    let previous: Map<unknown, number> | undefined
+    const invalidSet = new Set(invalid)
+    const valid = cache && isCacheValid(option, cache)
+    const cached = cache?.spaces
+
+    if (valid && cached) {
+        // 第一个发生变化的位置
+        const min = Math.min(length, cached.length)
+        while (start < min && items[start] === cached.item(start)) {
+            start++
+        }
+        invalidSet.forEach(index => {
+            if (index >= 0 && index < start) {
+                start = index
+            }
+        })
+        if (start === length && length === cached.length) {
+            return cache
+        }
+
+        columnsTop = new Array(columnCount).fill(0)
+        columns = new Array(columnCount)
+        for (let c = 0; c < columnCount; c++) {
+            // 复用 start 之前的元素
+            const count = countBefore(cache.columns[c], start)
+            columns[c] = cache.columns[c].slice(0, count)
+            if (count) {
+                columnsTop[c] = cached.bottom(columns[c][count - 1]) + gap
+            }
+        }
+
+        // 不是单纯的新增元素时，记录之后的元素原来的位置
+        if (getItemKey && start < cached.length) {
+            previous = new Map()
+            for (let i = start; i < cached.length; i++) {
+                previous.set(getItemKey(cached.item(i), i), i)
+            }
+        }
+    } else {
+        columnsTop = new Array(columnCount).fill(0)
+        columns = createColumns(columnCount)
+    }
+
+    // 复用 start 之前的元素，只追加元素时直接写入上一次结果的数组
+    const spaces = createSpaceWriter(valid ? cached : undefined, start, length)
+
+    // 计算元素占据的列数、宽度和高度
+    const measureItem = (i: number): ItemSize => {
+        const item = items[i]
+        const old = previous && getItemKey ? previous.get(getItemKey(item, i)) : undefined
+        const columnSpan = calcItemSpan ? getColumnSpan(calcItemSpan(item, i), columnCount) : 1
+        const width = columnSpan === 1 ? itemWidth : getSpanWidth(itemWidth, columnSpan, gap)
+        // 数据和宽度都没有变化的元素复用之前的高度
+        const height =
+            old !== undefined && cached!.item(old) === item && cached!.width(old) === width && !invalidSet.has(old)
+                ? cached!.height(old)
+                : calcItemHeight(item, width)
+        return { old, columnSpan, width, height }
+    }
+
+    // 放置策略向后查看时提前计算的元素: 索引 -> 尺寸
+    const ahead = new Map<number, ItemSize>()
+    let current = start
+    // 当前元素后面 count 个元素的高度
+    const lookahead = (count: number): number[] => {
+        const heights: number[] = []
+        for (let i = current + 1; i <= current + count && i < length; i++) {
+            let size = ahead.get(i)
+            if (!size) {
+                size = measureItem(i)
+                ahead.set(i, size)
+            }
+            heights.push(size.height)
+        }
+        return heights
+    }
+
+    // 为了高性能采用for-i
+    for (let i = start; i < length; i++) {
+        current = i
+        const item = items[i]
+        let size = ahead.get(i)
+        if (size) {
+            ahead.delete(i)
+        } else {
+            size = measureItem(i)
+        }
+        const { old, columnSpan, width, height: h } = size
+        // 按放置策略选择所在的列
+        const columnIndex = getPlacementColumn(placement, {
+            item,
+            index: i,
+            columnsTop,
+            columnSpan,
+            height: h,
+            gap,
+            // 只在放置策略用到时才创建上一个元素的空间信息
+            get previous() {
+                return i ? spaces.get(i - 1) : undefined
+            },
+            lastColumn: old !== undefined ? cached!.column(old) : undefined,
+            lookahead
+        })
+        const top = columnSpan === 1 ? columnsTop[columnIndex] : getSpanTop(columnsTop, columnIndex, columnSpan)
+        const left = (itemWidth + gap) * columnIndex
+
+        spaces.set(i, item, columnIndex, columnSpan, top, left, h, width)
+
+        // 更新占据的每一列的高度
+        for (let c = columnIndex; c < columnIndex + columnSpan; c++) {
+            columnsTop[c] = top + h + gap
+            columns[c].push(i)
+        }
+    }
+
+    return {
+        spaces: spaces.finish(length),
+        columnsTop,
+        columns,
+        itemWidth,
+        gap,
+        calcItemHeight,
+        calcItemSpan,
+        placement
+    }
+}
+
+// 按缓存计算布局时，每个元素沿用的上一次布局中的列，-1 表示重新选择列
+// 和 computeLayout 的规则相同：第一个发生变化的元素之前的元素保持原来的列，之后的元素传入 getItemKey 时按key找到原来的列
+// 用于从头计算布局时(例如在 worker 中)得到和传入缓存时相同的结果
+// 缓存不能复用，或者数据和参数都没有变化(需要全部重新计算)时返回 undefined
+export function getLastColumns<T>(option: LayoutOption<T>, cache?: LayoutState<T>): Int32Array | undefined {
+    const { items, getItemKey } = option
+    const length = items.length
+    if (!cache || !length || !isCacheValid(option, cache)) {
+        return undefined
+    }
+    const cached = cache.spaces
+    const min = Math.min(length, cached.length)
+    let start = 0
+    while (start < min && items[start] === cached.item(start)) {
+        start++
+    }
+    if (start === length && length === cached.length) {
+        return undefined
+    }
+
+    const lastColumns = new Int32Array(length).fill(-1)
+    for (let i = 0; i < start; i++) {
+        lastColumns[i] = cached.column(i)
+    }
+    if (getItemKey && start < cached.length) {
+        const previous = new Map<unknown, number>()
+        for (let i = start; i < cached.length; i++) {
+            previous.set(getItemKey(cached.item(i), i), i)
+        }
+        for (let i = start; i < length; i++) {
+            const old = previous.get(getItemKey(items[i], i))
+            if (old !== undefined) {
+                lastColumns[i] = cached.column(old)
+            }
+        }
+    }
+    return lastColumns
+}
+
+// 更新部分元素的高度（例如实际测量得到的高度）
+// 只重排受影响的列：元素所属的列不变，位于该元素下方的元素依次紧跟在所在列的上一个元素之后
+// heights: 元素索引 -> 新的高度
+export function applyItemHeights<T>(state: LayoutState<T>, heights: ReadonlyMap<number, number>): LayoutState<T> {
+    const { spaces, columns, gap } = state
+    const length = spaces.length
+    let first = length
+    heights.forEach((height, index) => {
+        if (index >= 0 && index < first && spaces.height(index) !== height) {
+            first = index
+        }
+    })
+    if (first >= length) {
+        return state
+    }
+
+    // first 之前的元素不变，从它们的位置开始累加每列的高度
+    const nextSpaces = createSpaceWriter(spaces, first, length)
+    const columnsTop = columns.map(column => {
+        const count = countBefore(column, first)
+        return count ? spaces.bottom(column[count - 1]) + gap : 0
+    })
+
+    for (let i = first; i < length; i++) {
+        const column = spaces.column(i)
+        const columnSpan = spaces.columnSpan(i)
+        const measured = heights.get(i)
+        const height = measured === undefined ? spaces.height(i) : measured
+        const top = getSpanTop(columnsTop, column, columnSpan)
+        nextSpaces.set(i, spaces.item(i), column, columnSpan, top, spaces.left(i), height, spaces.width(i))
+        for (let c = column; c < column + columnSpan; c++) {
+            columnsTop[c] = top + height + gap
+        }
+    }
+
+    return {
+        ...state,
+        spaces: nextSpaces.finish(length),
+        columnsTop
+    }
+}
+
+// 根据视口位置计算可见范围 [minLimit, maxLimit]
+// viewTop: 视口顶部相对于容器顶部的距离
+// viewHeight: 视口高度
+// preloadScreenCount: 预加载屏数量 [top, bottom]
+export function getVisibleLimits(viewTop: number, viewHeight: number, preloadScreenCount: readonly [number, number]): [number, number] {
+    const [topPreloadScreenCount, bottomPreloadScreenCount] = preloadScreenCount
+    // 顶部的范围: 向上预加载preloadScreenCount个屏幕，Y轴上部
+    const minLimit = viewTop - topPreloadScreenCount * viewHeight
+    // 底部的范围: 向下预加载preloadScreenCount个屏幕
+    const maxLimit = viewTop + (bottomPreloadScreenCount + 1) * viewHeight
+    return [minLimit, maxLimit]
+}
+
+// 内容底部距离视口底部的距离，小于等于0表示已经滚动到底部
+export function getBottomDistance(contentHeight: number, viewTop: number, viewHeight: number): number {
+    return contentHeight - (viewTop + viewHeight)
+}
+
+// 过滤出处于可见范围内的元素
+export function getVisibleSpaces<T>(spaces: SpaceStore<T>, minLimit: number, maxLimit: number): SpaceOption<T>[] {
+    const result: SpaceOption<T>[] = []
+    const length = spaces.length
+
+    for (let i = 0; i < length; i++) {
+        const t = spaces.top(i)
+        const b = spaces.bottom(i)
+        // 这里的逻辑是：
+        // 只要元素部分出现在可视区域里就算作可见，因此有三段判断:
+        // 1. 元素的上边界在容器内
+        // 2. 元素的下边界在容器内
+        // 3. 元素覆盖了整个容器
+        if ((t >= minLimit && t <= maxLimit) || (b >= minLimit && b <= maxLimit) || (t < minLimit && b > maxLimit)) {
+            result.push(spaces.get(i)!)
+        }
+    }
+    return result
+}
@@ -0,0 +1,18 @@
+// 布局计算的 worker 入口，由 worker.ts 以内联的方式创建
+import { computeLayoutArrays, getLayoutTransfer, type LayoutWorkerInput, type LayoutWorkerRequest, type LayoutWorkerResponse } from './worker'
+
+// 最后一次收到的高度参数，容器大小变化时复用
+let input: LayoutWorkerInput | undefined
+
+self.onmessage = (event: MessageEvent<LayoutWorkerRequest>) => {
+    const { id, input: next, ...params } = event.data
+    if (next) {
+        input = next
+    }
+    if (!input) {
+        return
+    }
+    const result = computeLayoutArrays(input, params)
+    const response: LayoutWorkerResponse = { id, result }
+    self.postMessage(response, { transfer: getLayoutTransfer(result) })
+}
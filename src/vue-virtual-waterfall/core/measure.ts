@@ -0,0 +1,73 @@
+// 测量已渲染元素的真实高度，不依赖 Vue / React
+
+export interface MeasuredHeight {
+    // 被测量的元素
+    element: HTMLElement
+    // 元素的真实高度(border-box)
+    height: number
+}
+
+export interface HeightObserver {
+    // 同步需要观察的元素：新出现的元素开始观察，已经移除的元素停止观察
+    sync(elements: Iterable<Element>): void
+    // 停止所有观察
+    disconnect(): void
+}
+
+// 当前环境是否支持测量（SSR 环境下没有 ResizeObserver）
+export function isMeasureSupported(): boolean {
+    return typeof ResizeObserver !== 'undefined'
+}
+
+// 创建一个高度观察器，元素高度变化时批量回调
+export function createHeightObserver(callback: (measured: MeasuredHeight[]) => void): HeightObserver {
+    const observed = new Set<HTMLElement>()
+
+    const observer = new ResizeObserver(entries => {
+        const measured: MeasuredHeight[] = []
+        for (const entry of entries) {
+            const element = entry.target as HTMLElement
+            // 已经被移除的元素高度为0，忽略
+            if (!element.isConnected) {
+                continue
+            }
+            const size = entry.borderBoxSize && entry.borderBoxSize[0]
+            measured.push({
+                element,
+                height: size ? size.blockSize : element.offsetHeight
+            })
+        }
+        if (measured.length) {
+            callback(measured)
+        }
+    })
+
+    const sync = (elements: Iterable<Element>) => {
+        const current = new Set<HTMLElement>()
+        for (const element of elements) {
+            current.add(element as HTMLElement)
+        }
+        observed.forEach(element => {
+            if (!current.has(element)) {
+                observer.unobserve(element)
+                observed.delete(element)
+            }
+        })
+        current.forEach(element => {
+            if (!observed.has(element)) {
+                observer.observe(element)
+                observed.add(element)
+            }
+        })
+    }
+
+    const disconnect = () => {
+        observer.disconnect()
+        observed.clear()
+    }
+
+    return {
+        sync,
+        disconnect
+    }
+}
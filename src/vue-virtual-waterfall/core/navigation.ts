@@ -0,0 +1,119 @@
+// 键盘导航：根据元素的位置查找上下左右相邻的元素，不依赖 Vue / React
+import type { SpaceStore } from './store'
+
+// 导航方向，使用布局中的方向：up / down 沿着列(top 减小 / 增大)，left / right 跨列
+// 横向滚动时由调用方把方向键映射到布局中的方向
+export type NavigationDirection = 'up' | 'down' | 'left' | 'right'
+
+// 列中索引为 index 的元素的位置，列中的元素按索引从小到大排列
+function findInColumn(column: readonly number[], index: number): number {
+    let low = 0
+    let high = column.length
+    while (low < high) {
+        const mid = (low + high) >>> 1
+        if (column[mid] < index) {
+            low = mid + 1
+        } else {
+            high = mid
+        }
+    }
+    return column[low] === index ? low : -1
+}
+
+// 点到元素在 top 方向上的距离，点在元素范围内时为0
+function getDistance(spaces: SpaceStore, index: number, position: number): number {
+    const top = spaces.top(index)
+    const bottom = spaces.bottom(index)
+    if (position < top) {
+        return top - position
+    }
+    if (position > bottom) {
+        return position - bottom
+    }
+    return 0
+}
+
+// 瀑布流中相邻元素的索引，没有相邻元素时返回 -1
+// up / down: 同一列中的上一个 / 下一个元素，跨列元素使用最左侧的列
+// left / right: 相邻列中和当前元素中心高度最接近的元素
+export function getAdjacentIndex(
+    spaces: SpaceStore,
+    columns: readonly (readonly number[])[],
+    index: number,
+    direction: NavigationDirection
+): number {
+    const space = spaces.get(index)
+    if (!space) {
+        return -1
+    }
+
+    if (direction === 'up' || direction === 'down') {
+        const column = columns[space.column] ?? []
+        const position = findInColumn(column, index) + (direction === 'up' ? -1 : 1)
+        return position >= 0 && position < column.length ? column[position] : -1
+    }
+
+    const column = columns[direction === 'left' ? space.column - 1 : space.column + space.columnSpan]
+    if (!column || !column.length) {
+        return -1
+    }
+    const center = (space.top + space.bottom) / 2
+    // 二分查找列中第一个 bottom >= center 的元素，它或者它上面的元素离中心最近
+    let low = 0
+    let high = column.length
+    while (low < high) {
+        const mid = (low + high) >>> 1
+        if (spaces.bottom(column[mid]) < center) {
+            low = mid + 1
+        } else {
+            high = mid
+        }
+    }
+    if (low >= column.length) {
+        return column[column.length - 1]
+    }
+    if (low > 0 && getDistance(spaces, column[low - 1], center) < getDistance(spaces, column[low], center)) {
+        return column[low - 1]
+    }
+    return column[low]
+}
+
+// 等高行布局中相邻元素的索引，没有相邻元素时返回 -1
+// left / right: 同一行中的上一个 / 下一个元素
+// up / down: 上一行 / 下一行中和当前元素中心水平位置最接近的元素
+export function getAdjacentRowIndex(spaces: SpaceStore, index: number, direction: NavigationDirection): number {
+    const space = spaces.get(index)
+    if (!space) {
+        return -1
+    }
+    const has = (i: number) => i >= 0 && i < spaces.length
+
+    if (direction === 'left' || direction === 'right') {
+        const next = direction === 'left' ? index - 1 : index + 1
+        return has(next) && spaces.top(next) === space.top ? next : -1
+    }
+
+    // 找到相邻行的第一个元素
+    let i = index
+    const step = direction === 'up' ? -1 : 1
+    while (has(i) && spaces.top(i) === space.top) {
+        i += step
+    }
+    if (!has(i)) {
+        return -1
+    }
+    const rowTop = spaces.top(i)
+    const center = space.left + space.width / 2
+    let result = i
+    let min = Number.POSITIVE_INFINITY
+    for (; has(i) && spaces.top(i) === rowTop; i += step) {
+        const left = spaces.left(i)
+        const width = spaces.width(i)
+        const distance = center < left ? left - center : center > left + width ? center - left - width : 0
+        if (distance < min) {
+            min = distance
+            result = i
+        }
+    }
+    return result
+}
@@ -0,0 +1,132 @@
+// 放置策略：决定每个元素放到哪一列，不依赖 Vue / React
+import type { SpaceOption } from './layout'
+
+export interface PlacementContext<T = any> {
+    // 当前元素
+    item: T
+    // 当前元素的索引
+    index: number
+    // 每列当前的高度，即放到该列时元素的top位置
+    columnsTop: readonly number[]
+    // 元素占据的列数
+    columnSpan: number
+    // 元素高度
+    height: number
+    // item间隔
+    gap: number
+    // 上一个元素的空间信息，第一个元素为 undefined
+    previous: SpaceOption<T> | undefined
+    // 上一次布局中该元素所在的列，新元素为 undefined
+    lastColumn: number | undefined
+    // 获取后面 count 个元素的高度，用于向后查看的策略
+    lookahead: (count: number) => number[]
+}
+
+// 自定义放置策略：返回元素所在的列，跨列元素为最左侧的列
+export type PlacementFunction<T = any> = (context: PlacementContext<T>) => number
+
+// 内置的放置策略
+// shortest: 放到高度最小的列
+// sequential: 按数据顺序从左到右依次放置，保持阅读顺序
+// balanced: 向后查看几个元素，放到使各列最终高度差最小的列
+export type PlacementStrategy = 'shortest' | 'sequential' | 'balanced'
+
+export type Placement<T = any> = PlacementStrategy | PlacementFunction<T>
+
+// 元素放在 column 开始的 columnSpan 列时的top位置：这几列中最高的那一列
+export function getSpanTop(columnsTop: readonly number[], column: number, columnSpan: number): number {
+    let top = columnsTop[column]
+    for (let c = column + 1; c < column + columnSpan; c++) {
+        if (columnsTop[c] > top) {
+            top = columnsTop[c]
+        }
+    }
+    return top
+}
+
+// 获取当前元素应该处于哪一列：高度最小的列，高度相同时取靠左的列
+// 跨列元素取能放下它的相邻列中位置最靠上的，返回最左侧的列
+export function getColumnIndex(columnsTop: readonly number[], columnSpan = 1): number {
+    let min = Number.POSITIVE_INFINITY
+    let index = 0
+    for (let i = 0; i + columnSpan <= columnsTop.length; i++) {
+        const top = columnSpan === 1 ? columnsTop[i] : getSpanTop(columnsTop, i, columnSpan)
+        if (top < min) {
+            min = top
+            index = i
+        }
+    }
+    return index
+}
+
+// 按顺序放置：紧跟在上一个元素的右侧，放不下时换到第一列
+export function getSequentialColumnIndex(columnCount: number, columnSpan: number, previous?: SpaceOption): number {
+    const column = previous ? previous.column + previous.columnSpan : 0
+    return column + columnSpan <= columnCount ? column : 0
+}
+
+// 平衡放置：依次尝试把元素放到每一列，后面的元素(lookahead)按高度最小的列模拟放置，
+// 取模拟结束后最高和最低的列高度差最小的列
+// 高度差相同时取位置最靠上的列，再相同时取靠左的列
+export function getBalancedColumnIndex(
+    columnsTop: readonly number[],
+    columnSpan: number,
+    height: number,
+    gap: number,
+    lookahead: readonly number[] = []
+): number {
+    let minDiff = Number.POSITIVE_INFINITY
+    let minTop = Number.POSITIVE_INFINITY
+    let index = 0
+    for (let i = 0; i + columnSpan <= columnsTop.length; i++) {
+        const top = getSpanTop(columnsTop, i, columnSpan)
+        const tops = columnsTop.slice()
+        for (let c = i; c < i + columnSpan; c++) {
+            tops[c] = top + height + gap
+        }
+        for (const next of lookahead) {
+            tops[getColumnIndex(tops)] += next + gap
+        }
+        const diff = Math.max(...tops) - Math.min(...tops)
+        if (diff < minDiff || (diff === minDiff && top < minTop)) {
+            minDiff = diff
+            minTop = top
+            index = i
+        }
+    }
+    return index
+}
+
+// 已有的元素是否可以保持在上一次布局中的列：放到该列时比放到高度最小的列低得不超过元素自身的高度
+// 超过时重新选择列，避免列之间的高度差越来越大
+function canKeepLastColumn(columnsTop: readonly number[], lastColumn: number, columnSpan: number, height: number): boolean {
+    if (lastColumn + columnSpan > columnsTop.length) {
+        return false
+    }
+    const shortest = getColumnIndex(columnsTop, columnSpan)
+    return getSpanTop(columnsTop, lastColumn, columnSpan) - getSpanTop(columnsTop, shortest, columnSpan) <= height
+}
+
+// 按放置策略获取元素所在的列
+// 内置的 shortest / balanced 策略中，已有的元素尽量保持在上一次布局中的列，避免数据变化时元素在列之间跳动
+export function getPlacementColumn<T>(placement: Placement<T>, context: PlacementContext<T>): number {
+    const { columnsTop, columnSpan, lastColumn } = context
+    const columnCount = columnsTop.length
+
+    if (typeof placement === 'function') {
+        // 自定义策略返回的列限制在可以放下该元素的范围内
+        const column = Math.floor(placement(context)) || 0
+        return Math.min(Math.max(column, 0), columnCount - columnSpan)
+    }
+    if (placement === 'sequential') {
+        return getSequentialColumnIndex(columnCount, columnSpan, context.previous)
+    }
+    if (lastColumn !== undefined && canKeepLastColumn(columnsTop, lastColumn, columnSpan, context.height)) {
+        return lastColumn
+    }
+    if (placement === 'balanced') {
+        // 向后查看的元素数量：列数 - 1
+        return getBalancedColumnIndex(columnsTop, columnSpan, context.height, context.gap, context.lookahead(columnCount - 1))
+    }
+    return getColumnIndex(columnsTop, columnSpan)
+}
@@ -0,0 +1,71 @@
+import type { SpaceOption } from './layout'
+import type { SpaceStore } from './store'
+
+// 基于每列的索引查找可见元素
+// 同一列中的元素从上到下排列，top 和 bottom 都是单调递增的，因此每列可以二分查找第一个可见元素
+// 复杂度: O(列数 * log n + 可见元素数量)
+
+// 二分查找：列中第一个 bottom >= minLimit 的位置
+function findFirstVisible(spaces: SpaceStore, column: readonly number[], minLimit: number): number {
+    let low = 0
+    let high = column.length
+    while (low < high) {
+        const mid = (low + high) >>> 1
+        if (spaces.bottom(column[mid]) < minLimit) {
+            low = mid + 1
+        } else {
+            high = mid
+        }
+    }
+    return low
+}
+
+// 过滤出处于可见范围内的元素，结果按索引从小到大排列
+export function getVisibleSpacesInColumns<T>(
+    spaces: SpaceStore<T>,
+    columns: readonly (readonly number[])[],
+    minLimit: number,
+    maxLimit: number
+): SpaceOption<T>[] {
+    const result: SpaceOption<T>[] = []
+
+    for (let c = 0; c < columns.length; c++) {
+        const column = columns[c]
+        for (let i = findFirstVisible(spaces, column, minLimit); i < column.length; i++) {
+            const index = column[i]
+            // 该列后面的元素都在可见范围之下
+            if (spaces.top(index) > maxLimit) {
+                break
+            }
+            // 跨列元素会出现在它占据的每一列中，只在最左侧的列中添加一次
+            if (spaces.column(index) === c) {
+                result.push(spaces.get(index)!)
+            }
+        }
+    }
+
+    // 保持和数据一致的顺序，避免DOM顺序随滚动变化
+    return result.sort((a, b) => a.index - b.index)
+}
+
+// 查找锚点元素：与视口顶部相交或者位于视口顶部下方、位置最靠上的元素
+// 布局变化后让锚点元素保持在屏幕中的位置不变，可以避免视口跳动
+export function findAnchorSpace<T>(
+    spaces: SpaceStore<T>,
+    columns: readonly (readonly number[])[],
+    viewTop: number
+): SpaceOption<T> | undefined {
+    let anchor = -1
+    for (const column of columns) {
+        const i = findFirstVisible(spaces, column, viewTop)
+        if (i >= column.length) {
+            continue
+        }
+        const index = column[i]
+        const top = spaces.top(index)
+        if (anchor < 0 || top < spaces.top(anchor) || (top === spaces.top(anchor) && index < anchor)) {
+            anchor = index
+        }
+    }
+    return spaces.get(anchor)
+}
@@ -0,0 +1,210 @@
+// 滚动容器相关的方法，不依赖 Vue / React
+
+// 滚动容器：元素或者window
+export type ScrollElement = HTMLElement | Window
+
+// 可以传入元素、选择器或者window，不传时使用最近的可滚动祖先元素
+export type ScrollElementOption = ScrollElement | string | null | undefined
+
+// 滚动方向: vertical(纵向) / horizontal(横向)
+export type ScrollDirection = 'vertical' | 'horizontal'
+
+export function isWindow(target: unknown): target is Window {
+    return typeof window !== 'undefined' && target === window
+}
+
+// 查找最近的沿滚动方向可滚动的祖先元素，找不到时使用window
+export function getScrollParent(element: HTMLElement, direction: ScrollDirection = 'vertical'): ScrollElement {
+    let parent = element.parentElement
+    while (parent && parent !== document.body && parent !== document.documentElement) {
+        const { overflowX, overflowY } = window.getComputedStyle(parent)
+        if (/auto|scroll|overlay/.test(direction === 'horizontal' ? overflowX : overflowY)) {
+            return parent
+        }
+        parent = parent.parentElement
+    }
+    return window
+}
+
+// 解析滚动容器
+export function resolveScrollElement(
+    option: ScrollElementOption,
+    content?: HTMLElement | null,
+    direction: ScrollDirection = 'vertical'
+): ScrollElement | undefined {
+    // SSR 环境中没有滚动容器
+    if (typeof window === 'undefined') {
+        return undefined
+    }
+    if (typeof option === 'string') {
+        return document.querySelector<HTMLElement>(option) ?? undefined
+    }
+    if (option) {
+        return option
+    }
+    return content ? getScrollParent(content, direction) : undefined
+}
+
+// 视口顶部在屏幕中的位置
+function getViewportTop(target: ScrollElement): number {
+    if (isWindow(target)) {
+        return 0
+    }
+    return target.getBoundingClientRect().top + target.clientTop
+}
+
+// 视口左侧在屏幕中的位置
+function getViewportLeft(target: ScrollElement): number {
+    if (isWindow(target)) {
+        return 0
+    }
+    return target.getBoundingClientRect().left + target.clientLeft
+}
+
+// 视口高度
+export function getViewportHeight(target: ScrollElement): number {
+    if (isWindow(target)) {
+        return target.innerHeight
+    }
+    return target.clientHeight
+}
+
+// 视口宽度
+export function getViewportWidth(target: ScrollElement): number {
+    if (isWindow(target)) {
+        return target.innerWidth
+    }
+    return target.clientWidth
+}
+
+// 布局坐标原点（容器内容区域的顶部，不包含内边距）在屏幕中的位置
+function getContentTop(content: HTMLElement): number {
+    const paddingTop = Number.parseFloat(window.getComputedStyle(content).paddingTop) || 0
+    return content.getBoundingClientRect().top + content.clientTop + paddingTop
+}
+
+// 布局坐标原点(容器内容区域的左侧，不包含内边距)在屏幕中的位置
+function getContentLeft(content: HTMLElement): number {
+    const paddingLeft = Number.parseFloat(window.getComputedStyle(content).paddingLeft) || 0
+    return content.getBoundingClientRect().left + content.clientLeft + paddingLeft
+}
+
+// 视口顶部相对于布局坐标原点的距离
+export function getViewTop(content: HTMLElement, target: ScrollElement): number {
+    return getViewportTop(target) - getContentTop(content)
+}
+
+// 视口左侧相对于布局坐标原点的距离
+export function getViewLeft(content: HTMLElement, target: ScrollElement): number {
+    return getViewportLeft(target) - getContentLeft(content)
+}
+
+// 沿滚动方向：视口起点相对于布局坐标原点的距离
+export function getViewStart(content: HTMLElement, target: ScrollElement, direction: ScrollDirection = 'vertical'): number {
+    return direction === 'horizontal' ? getViewLeft(content, target) : getViewTop(content, target)
+}
+
+// 沿滚动方向：视口的大小
+export function getViewportSize(target: ScrollElement, direction: ScrollDirection = 'vertical'): number {
+    return direction === 'horizontal' ? getViewportWidth(target) : getViewportHeight(target)
+}
+
+// 滚动容器当前的滚动距离
+export function getScrollTop(target: ScrollElement): number {
+    if (isWindow(target)) {
+        return target.scrollY
+    }
+    return target.scrollTop
+}
+
+// 滚动容器横向的滚动距离
+export function getScrollLeft(target: ScrollElement): number {
+    if (isWindow(target)) {
+        return target.scrollX
+    }
+    return target.scrollLeft
+}
+
+// 沿滚动方向：滚动容器当前的滚动距离
+export function getScrollPosition(target: ScrollElement, direction: ScrollDirection = 'vertical'): number {
+    return direction === 'horizontal' ? getScrollLeft(target) : getScrollTop(target)
+}
+
+// 立即沿滚动方向滚动指定的距离，不受 scroll-behavior 影响
+export function scrollByDelta(target: ScrollElement, delta: number, direction: ScrollDirection = 'vertical') {
+    target.scrollBy({
+        [direction === 'horizontal' ? 'left' : 'top']: delta,
+        behavior: 'instant'
+    })
+}
+
+// 滚动到元素时的对齐方式
+export type ScrollAlign = 'start' | 'center' | 'end' | 'nearest'
+
+export interface ScrollToOption {
+    // 对齐方式，默认 start
+    align?: ScrollAlign
+    // 滚动行为，默认 auto
+    behavior?: ScrollBehavior
+    // 额外的偏移量，会加到最终的滚动距离上，例如传入负的吸顶高度
+    offset?: number
+}
+
+// 计算把元素滚动到视口中指定位置时，滚动容器的滚动距离
+// space: 元素的位置(相对于容器内容区域)
+// viewTop: 视口顶部相对于容器内容区域顶部的距离
+// viewHeight: 视口高度
+// scrollTop: 滚动容器当前的滚动距离
+export function getScrollTopToSpace(
+    space: { top: number; height: number },
+    viewTop: number,
+    viewHeight: number,
+    scrollTop: number,
+    option: ScrollToOption = {}
+): number {
+    const { align = 'start', offset = 0 } = option
+    // 元素顶部相对于视口顶部的距离
+    const distance = space.top - viewTop
+
+    let delta: number
+    switch (align) {
+        case 'center':
+            delta = distance - (viewHeight - space.height) / 2
+            break
+        case 'end':
+            delta = distance - (viewHeight - space.height)
+            break
+        case 'nearest':
+            if (distance < 0 || space.height > viewHeight) {
+                // 元素在视口上方，或者比视口还高：顶部对齐
+                delta = distance
+            } else if (distance + space.height > viewHeight) {
+                // 元素在视口下方：底部对齐
+                delta = distance - (viewHeight - space.height)
+            } else {
+                // 已经完全可见，不需要滚动
+                delta = 0
+            }
+            break
+        default:
+            delta = distance
+    }
+
+    return Math.max(0, scrollTop + delta + offset)
+}
+
+// 滚动到指定位置
+export function scrollToTop(target: ScrollElement, top: number, behavior?: ScrollBehavior) {
+    target.scrollTo({
+        top,
+        behavior
+    })
+}
+
+// 沿滚动方向滚动到指定位置
+export function scrollToPosition(target: ScrollElement, position: number, direction: ScrollDirection = 'vertical', behavior?: ScrollBehavior) {
+    target.scrollTo({
+        [direction === 'horizontal' ? 'left' : 'top']: position,
+        behavior
+    })
+}
@@ -0,0 +1,184 @@
+// 布局快照：导出当前的布局和滚动位置，重新挂载时直接恢复，不依赖 Vue / React
+// 快照只包含数字和item的key，可以用 JSON 序列化后保存到 sessionStorage
+import { computeJustifiedLayout, isJustifiedLayout, type JustifiedLayoutOption, type JustifiedLayoutState } from './justified'
+import { computeLayout, type LayoutOption, type LayoutState, type SpaceOption } from './layout'
+import { findAnchorSpace } from './range'
+import { createSpaceWriter, findSpaceIndex, type SpaceStore } from './store'
+
+// item的key，需要可以序列化
+export type SnapshotKey = string | number
+
+// 快照中保存的key: 字符串和数字直接保存，其他值(例如没有 rowKey 时的item对象)无法序列化，使用索引
+export function toSnapshotKey(key: unknown, index: number): SnapshotKey {
+    return typeof key === 'string' || typeof key === 'number' ? key : index
+}
+
+// 单个item的位置
+export interface SnapshotSpace {
+    key: SnapshotKey
+    column: number
+    columnSpan: number
+    top: number
+    left: number
+    height: number
+    width: number
+}
+
+export interface LayoutSnapshot {
+    // 布局模式
+    mode: 'waterfall' | 'justified'
+    // 计算布局时使用的参数，和恢复时的参数不同说明容器大小发生了变化，快照中的位置不能直接使用
+    // 列数，等高行布局为1
+    columnCount: number
+    // item宽度，等高行布局为容器宽度
+    width: number
+    gap: number
+    // 等高行布局的目标行高，瀑布流为0
+    rowHeight: number
+    // 每个item的位置，包含测量得到的真实高度
+    spaces: SnapshotSpace[]
+    // 滚动容器的滚动位置
+    scrollOffset: number
+    // 锚点item的key：导出时位于视口顶部的item，恢复时优先让它回到原来的位置
+    anchorKey?: SnapshotKey
+    // 锚点item的顶部相对于视口顶部的距离
+    anchorOffset: number
+}
+
+export interface SnapshotOption<T = any> {
+    // 获取item的唯一标识
+    getItemKey: (item: T, index: number) => unknown
+    // 视口顶部相对于容器内容区域顶部的距离，用于查找锚点item
+    viewStart: number
+    // 滚动容器的滚动位置
+    scrollOffset: number
+}
+
+// 导出布局快照
+export function createLayoutSnapshot<T>(state: LayoutState<T> | JustifiedLayoutState<T>, option: SnapshotOption<T>): LayoutSnapshot {
+    const { getItemKey, viewStart, scrollOffset } = option
+    const justified = isJustifiedLayout(state)
+    const { spaces } = state
+    const anchor = findAnchorSpace(spaces, state.columns, viewStart)
+    const saved: SnapshotSpace[] = new Array(spaces.length)
+    for (let i = 0; i < spaces.length; i++) {
+        saved[i] = {
+            key: toSnapshotKey(getItemKey(spaces.item(i), i), i),
+            column: spaces.column(i),
+            columnSpan: spaces.columnSpan(i),
+            top: spaces.top(i),
+            left: spaces.left(i),
+            height: spaces.height(i),
+            width: spaces.width(i)
+        }
+    }
+
+    return {
+        mode: justified ? 'justified' : 'waterfall',
+        columnCount: state.columns.length,
+        width: 'itemWidth' in state ? state.itemWidth : state.containerWidth,
+        gap: state.gap,
+        rowHeight: justified ? state.rowHeight : 0,
+        spaces: saved,
+        scrollOffset,
+        anchorKey: anchor ? toSnapshotKey(getItemKey(anchor.item, anchor.index), anchor.index) : undefined,
+        anchorOffset: anchor ? anchor.top - viewStart : 0
+    }
+}
+
+// 从第一个item开始，key和快照中相同的item直接使用快照中的位置，遇到第一个不同的item时停止
+function restoreSpaces<T>(
+    items: readonly T[],
+    snapshot: LayoutSnapshot,
+    getItemKey: (item: T, index: number) => unknown
+): SpaceStore<T> {
+    const length = Math.min(items.length, snapshot.spaces.length)
+    const spaces = createSpaceWriter<T>(undefined, 0, length)
+    let count = 0
+    for (; count < length; count++) {
+        const saved = snapshot.spaces[count]
+        if (toSnapshotKey(getItemKey(items[count], count), count) !== saved.key || saved.column + saved.columnSpan > snapshot.columnCount) {
+            break
+        }
+        spaces.set(count, items[count], saved.column, saved.columnSpan, saved.top, saved.left, saved.height, saved.width)
+    }
+    return spaces.finish(count)
+}
+
+// 按快照恢复瀑布流布局：快照中已有的item不再计算高度和位置，之后的item按正常的方式继续计算
+// 参数和快照不一致时重新计算整个布局
+export function restoreLayout<T>(
+    option: LayoutOption<T>,
+    snapshot: LayoutSnapshot,
+    getItemKey: (item: T, index: number) => unknown
+): LayoutState<T> {
+    const { columnCount, itemWidth, gap } = option
+    if (snapshot.mode !== 'waterfall' || snapshot.columnCount !== columnCount || snapshot.width !== itemWidth || snapshot.gap !== gap) {
+        return computeLayout(option)
+    }
+    const spaces = restoreSpaces(option.items, snapshot, getItemKey)
+    if (!spaces.length) {
+        return computeLayout(option)
+    }
+
+    const columnsTop: number[] = new Array(columnCount).fill(0)
+    const columns: number[][] = Array.from({ length: columnCount }, () => [])
+    for (let i = 0; i < spaces.length; i++) {
+        const column = spaces.column(i)
+        for (let c = column; c < column + spaces.columnSpan(i); c++) {
+            columns[c].push(i)
+            columnsTop[c] = spaces.bottom(i) + gap
+        }
+    }
+
+    // 作为缓存传入，从快照之后的第一个item开始计算
+    return computeLayout(option, {
+        spaces,
+        columnsTop,
+        columns,
+        itemWidth,
+        gap,
+        calcItemHeight: option.calcItemHeight,
+        calcItemSpan: option.calcItemSpan,
+        placement: option.placement ?? 'shortest'
+    })
+}
+
+// 按快照恢复等高行布局，快照中最后一行会和之后的item一起重新计算
+export function restoreJustifiedLayout<T>(
+    option: JustifiedLayoutOption<T>,
+    snapshot: LayoutSnapshot,
+    getItemKey: (item: T, index: number) => unknown
+): JustifiedLayoutState<T> {
+    const { containerWidth, rowHeight, gap } = option
+    if (snapshot.mode !== 'justified' || snapshot.width !== containerWidth || snapshot.rowHeight !== rowHeight || snapshot.gap !== gap) {
+        return computeJustifiedLayout(option)
+    }
+    const spaces = restoreSpaces(option.items, snapshot, getItemKey)
+    if (!spaces.length) {
+        return computeJustifiedLayout(option)
+    }
+
+    return computeJustifiedLayout(option, {
+        spaces,
+        columnsTop: [spaces.bottom(spaces.length - 1) + gap],
+        columns: [Array.from({ length: spaces.length }, (_, i) => i)],
+        containerWidth,
+        rowHeight,
+        gap,
+        calcItemRatio: option.calcItemRatio
+    })
+}
+
+// 恢复后的布局中快照的锚点item，找不到时返回 undefined
+export function findSnapshotAnchor<T>(
+    spaces: SpaceStore<T>,
+    snapshot: LayoutSnapshot,
+    getItemKey: (item: T, index: number) => unknown
+): SpaceOption<T> | undefined {
+    const { anchorKey } = snapshot
+    if (anchorKey === undefined) {
+        return undefined
+    }
+    return spaces.get(findSpaceIndex(spaces, (item, index) => toSnapshotKey(getItemKey(item, index), index) === anchorKey))
+}
@@ -0,0 +1,182 @@
+// 紧凑的布局存储：位置信息按字段保存在类型数组中，不为每个元素创建 SpaceOption 对象，不依赖 Vue / React
+// 追加元素时直接写入共享的数组(容量不够时按两倍扩容)，之前的结果仍然可以读取自己长度范围内的元素
+import type { SpaceOption } from './layout'
+
+export interface SpaceStore<T = any> {
+    // 元素数量
+    readonly length: number
+    item(index: number): T
+    column(index: number): number
+    columnSpan(index: number): number
+    top(index: number): number
+    left(index: number): number
+    bottom(index: number): number
+    height(index: number): number
+    width(index: number): number
+    // 按需创建单个元素的空间信息，每次调用都返回新的对象，索引超出范围时返回 undefined
+    get(index: number): SpaceOption<T> | undefined
+    // 创建所有元素的空间信息，只在对外暴露时使用
+    toArray(): SpaceOption<T>[]
+}
+
+// 写入布局结果，写入的元素需要从 start 开始按索引连续
+export interface SpaceStoreWriter<T = any> {
+    set(index: number, item: T, column: number, columnSpan: number, top: number, left: number, height: number, width: number): void
+    // 读取已经写入(包括复用)的元素
+    get(index: number): SpaceOption<T>
+    // 结束写入，返回包含前 length 个元素的结果
+    finish(length: number): SpaceStore<T>
+}
+
+// 多个结果共享的底层数组
+interface SpaceBuffers<T> {
+    // item只在这里保存一次引用，数据被原地修改时仍然可以和之前的结果比较
+    items: T[]
+    columns: Int32Array
+    columnSpans: Int32Array
+    tops: Float64Array
+    lefts: Float64Array
+    heights: Float64Array
+    widths: Float64Array
+    // 已经写入的元素数量，只有长度等于它的结果才能直接在后面追加，否则需要复制
+    used: number
+}
+
+// 结果对应的底层数组，不对外暴露
+const storeBuffers = new WeakMap<SpaceStore, SpaceBuffers<any>>()
+
+function createBuffers<T>(capacity: number): SpaceBuffers<T> {
+    return {
+        items: [],
+        columns: new Int32Array(capacity),
+        columnSpans: new Int32Array(capacity),
+        tops: new Float64Array(capacity),
+        lefts: new Float64Array(capacity),
+        heights: new Float64Array(capacity),
+        widths: new Float64Array(capacity),
+        used: 0
+    }
+}
+
+// 复制前 length 个元素到新的数组中
+function copyBuffers<T>(source: SpaceBuffers<T>, length: number, capacity: number): SpaceBuffers<T> {
+    const buffers = createBuffers<T>(capacity)
+    buffers.items = source.items.slice(0, length)
+    buffers.columns.set(source.columns.subarray(0, length))
+    buffers.columnSpans.set(source.columnSpans.subarray(0, length))
+    buffers.tops.set(source.tops.subarray(0, length))
+    buffers.lefts.set(source.lefts.subarray(0, length))
+    buffers.heights.set(source.heights.subarray(0, length))
+    buffers.widths.set(source.widths.subarray(0, length))
+    buffers.used = length
+    return buffers
+}
+
+// 创建单个元素的空间信息
+function readSpace<T>(buffers: SpaceBuffers<T>, index: number): SpaceOption<T> {
+    const { tops, heights } = buffers
+    return {
+        index,
+        item: buffers.items[index],
+        column: buffers.columns[index],
+        columnSpan: buffers.columnSpans[index],
+        top: tops[index],
+        left: buffers.lefts[index],
+        bottom: tops[index] + heights[index],
+        height: heights[index],
+        width: buffers.widths[index]
+    }
+}
+
+function createStoreView<T>(buffers: SpaceBuffers<T>, length: number): SpaceStore<T> {
+    const { items, columns, columnSpans, tops, lefts, heights, widths } = buffers
+    const get = (index: number): SpaceOption<T> | undefined => (index >= 0 && index < length ? readSpace(buffers, index) : undefined)
+    const store: SpaceStore<T> = {
+        length,
+        item: index => items[index],
+        column: index => columns[index],
+        columnSpan: index => columnSpans[index],
+        top: index => tops[index],
+        left: index => lefts[index],
+        bottom: index => tops[index] + heights[index],
+        height: index => heights[index],
+        width: index => widths[index],
+        get,
+        toArray: () => {
+            const spaces: SpaceOption<T>[] = new Array(length)
+            for (let i = 0; i < length; i++) {
+                spaces[i] = get(i)!
+            }
+            return spaces
+        }
+    }
+    storeBuffers.set(store, buffers)
+    return store
+}
+
+// 开始写入新的结果：start 之前的元素复用 base 中的值，length 为新结果的元素数量
+// base 是共享数组中最新的结果并且容量足够时，直接在后面追加，不复制之前的元素
+export function createSpaceWriter<T>(base: SpaceStore<T> | undefined, start: number, length: number): SpaceStoreWriter<T> {
+    const source = base && storeBuffers.get(base)
+    const prefix = source ? Math.min(start, base.length) : 0
+    let buffers: SpaceBuffers<T>
+    if (source && prefix === base.length && source.used === base.length && source.tops.length >= length) {
+        buffers = source
+    } else if (source) {
+        // 扩容时按两倍增长，连续追加的总复制次数是均摊 O(1) 的
+        buffers = copyBuffers(source, prefix, Math.max(length, prefix * 2))
+    } else {
+        buffers = createBuffers(length)
+    }
+    buffers.used = prefix
+    const { items, columns, columnSpans, tops, lefts, heights, widths } = buffers
+
+    return {
+        set(index, item, column, columnSpan, top, left, height, width) {
+            items[index] = item
+            columns[index] = column
+            columnSpans[index] = columnSpan
+            tops[index] = top
+            lefts[index] = left
+            heights[index] = height
+            widths[index] = width
+        },
+        get: index => readSpace(buffers, index),
+        finish(count) {
+            items.length = count
+            buffers.used = count
+            return createStoreView(buffers, count)
+        }
+    }
+}
+
+// 没有元素的结果
+export function createEmptySpaceStore<T>(): SpaceStore<T> {
+    return createStoreView(createBuffers<T>(0), 0)
+}
+
+// 由数组创建结果，例如 worker 返回的类型数组，数组直接使用，不会复制
+export function createSpaceStoreFromArrays<T>(
+    items: readonly T[],
+    arrays: {
+        columns: Int32Array
+        columnSpans: Int32Array
+        tops: Float64Array
+        lefts: Float64Array
+        heights: Float64Array
+        widths: Float64Array
+    }
+): SpaceStore<T> {
+    const length = Math.min(items.length, arrays.tops.length)
+    return createStoreView({ ...arrays, items: items.slice(0, length), used: length }, length)
+}
+
+// 查找第一个满足条件的元素的索引，没有时返回 -1
+export function findSpaceIndex<T>(spaces: SpaceStore<T>, predicate: (item: T, index: number) => boolean): number {
+    for (let i = 0; i < spaces.length; i++) {
+        if (predicate(spaces.item(i), i)) {
+            return i
+        }
+    }
+    return -1
+}
@@ -0,0 +1,69 @@
+// 布局变化时的过渡动画，不依赖 Vue / React
+// 移动: item通过 transform 定位，给它加上 CSS transition 后，位置变化时浏览器会从旧位置过渡到新位置(FLIP)
+// 进入 / 离开: 只有数据中新增 / 删除的item才有动画，因为滚动而进入 / 离开渲染范围的item没有动画
+
+export interface TransitionOption {
+    // 动画时长(毫秒)
+    duration?: number
+    // 缓动函数，和 CSS 中的 transition-timing-function 相同
+    easing?: string
+    // 新增的item是否有进入动画
+    enter?: boolean
+    // 删除的item是否有离开动画
+    leave?: boolean
+}
+
+const DEFAULT_TRANSITION: Required<TransitionOption> = {
+    duration: 300,
+    easing: 'ease',
+    enter: true,
+    leave: true
+}
+
+// 用户是否设置了减少动画(SSR 环境中视为否)
+export function prefersReducedMotion(): boolean {
+    return typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches
+}
+
+// 合并默认参数，返回 undefined 表示不使用动画：没有开启、或者用户设置了减少动画
+export function resolveTransition(
+    option: boolean | TransitionOption | null | undefined,
+    reducedMotion = prefersReducedMotion()
+): Required<TransitionOption> | undefined {
+    if (!option || reducedMotion) {
+        return undefined
+    }
+    return option === true ? DEFAULT_TRANSITION : { ...DEFAULT_TRANSITION, ...option }
+}
+
+// item位置和大小变化时的 CSS transition
+export function getMoveTransition(option: Required<TransitionOption>): string {
+    const { duration, easing } = option
+    return ['transform', 'width', 'height'].map(property => `${property} ${duration}ms ${easing}`).join(', ')
+}
+
+// 进入动画：从透明、缩小的状态过渡到正常状态，item的 transform 不受影响
+export function animateEnter(element: HTMLElement, option: Required<TransitionOption>): Animation | undefined {
+    if (!option.enter || typeof element.animate !== 'function') {
+        return undefined
+    }
+    return element.animate([{ opacity: 0, scale: '0.9' }, { opacity: 1, scale: '1' }], {
+        duration: option.duration,
+        easing: option.easing
+    })
+}
+
+// 离开动画：过渡到透明、缩小的状态，结束后调用 done
+export function animateLeave(element: HTMLElement, option: Required<TransitionOption>, done: () => void): void {
+    if (!option.leave || typeof element.animate !== 'function') {
+        done()
+        return
+    }
+    const animation = element.animate([{ opacity: 1, scale: '1' }, { opacity: 0, scale: '0.9' }], {
+        duration: option.duration,
+        easing: option.easing,
+        fill: 'forwards'
+    })
+    animation.onfinish = done
+    animation.oncancel = done
+}
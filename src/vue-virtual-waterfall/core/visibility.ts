@@ -0,0 +1,211 @@
+// 可见范围和item的曝光：根据布局中的位置计算，不需要给每个item创建 IntersectionObserver，不依赖 Vue / React
+// 位置都沿滚动方向计算：纵向滚动时为 top / height，横向滚动时布局中的 top / height 对应 x 轴
+import type { SpaceOption } from './layout'
+import { getVisibleSpacesInColumns } from './range'
+import type { SpaceStore } from './store'
+
+// 索引范围，没有item时为 -1
+export interface IndexRange {
+    start: number
+    end: number
+}
+
+export interface VisibleRange {
+    // 视口中第一个 / 最后一个item的索引
+    start: number
+    end: number
+    // 每列视口中第一个 / 最后一个item的索引，跨列item出现在它占据的每一列中
+    columns: IndexRange[]
+    // 视口中的item索引，从小到大排列
+    visible: number[]
+    // 已经渲染的item索引，包含预加载区域以及保持焦点的item
+    rendered: number[]
+}
+
+// item在视口中的比例，0 ~ 1
+// 按item和视口中较小的一个计算，比视口还大的item占满视口时为 1
+export function getVisibleRatio(space: { top: number; height: number }, viewStart: number, viewSize: number): number {
+    const size = Math.min(space.height, viewSize)
+    const visible = Math.min(space.top + space.height, viewStart + viewSize) - Math.max(space.top, viewStart)
+    if (size <= 0) {
+        return visible >= 0 && viewSize > 0 ? 1 : 0
+    }
+    return Math.max(0, Math.min(1, visible / size))
+}
+
+// 计算可见范围，viewSize 为0(视口还没有测量)时没有可见的item
+export function getVisibleRange<T>(
+    spaces: SpaceStore<T>,
+    columns: readonly (readonly number[])[],
+    rendered: readonly SpaceOption<T>[],
+    viewStart: number,
+    viewSize: number
+): VisibleRange {
+    const columnRanges: IndexRange[] = columns.map(() => ({ start: -1, end: -1 }))
+    const visible: number[] = []
+    if (viewSize > 0) {
+        // 只和视口边缘接触的item不算可见
+        for (const space of getVisibleSpacesInColumns(spaces, columns, viewStart, viewStart + viewSize)) {
+            if (getVisibleRatio(space, viewStart, viewSize) <= 0) {
+                continue
+            }
+            visible.push(space.index)
+            for (let c = space.column; c < space.column + space.columnSpan && c < columnRanges.length; c++) {
+                const range = columnRanges[c]
+                if (range.start < 0) {
+                    range.start = space.index
+                }
+                range.end = space.index
+            }
+        }
+    }
+    return {
+        start: visible.length ? visible[0] : -1,
+        end: visible.length ? visible[visible.length - 1] : -1,
+        columns: columnRanges,
+        visible,
+        rendered: rendered.map(space => space.index)
+    }
+}
+
+function isSameIndexes(a: readonly number[], b: readonly number[]): boolean {
+    return a.length === b.length && a.every((value, i) => value === b[i])
+}
+
+// 可见范围是否相同，用于判断是否需要触发变化事件
+export function isSameRange(a: VisibleRange | undefined, b: VisibleRange | undefined): boolean {
+    if (!a || !b) {
+        return a === b
+    }
+    return (
+        a.start === b.start &&
+        a.end === b.end &&
+        a.columns.length === b.columns.length &&
+        a.columns.every((range, i) => range.start === b.columns[i].start && range.end === b.columns[i].end) &&
+        isSameIndexes(a.visible, b.visible) &&
+        isSameIndexes(a.rendered, b.rendered)
+    )
+}
+
+// item-visible / item-hidden 事件的参数
+export interface ItemVisibility<T = any> {
+    item: T
+    index: number
+    // 当前在视口中的比例
+    ratio: number
+    // 达到阈值到现在的时间(毫秒)
+    duration: number
+}
+
+export interface VisibilityTrackerOption<T = any> {
+    // 在视口中的比例达到多少时算作可见，(0, 1]
+    threshold: number
+    // 保持可见多长时间(毫秒)后才触发 onVisible
+    dwell: number
+    // 获取item的唯一标识，数据变化后仍然可以对应到同一个item
+    getItemKey: (item: T) => unknown
+    onVisible: (event: ItemVisibility<T>) => void
+    // 已经触发过 onVisible 的item不再可见：比例低于阈值、滚出视口或者从数据中删除
+    onHidden: (event: ItemVisibility<T>) => void
+}
+
+export interface VisibilityTracker<T = any> {
+    // 视口或者布局变化后更新，spaces: 视口中的item
+    update(spaces: readonly SpaceOption<T>[], viewStart: number, viewSize: number): void
+    // 停止计时，不再触发事件
+    disconnect(): void
+}
+
+interface TrackedItem<T> {
+    space: SpaceOption<T>
+    ratio: number
+    // 达到阈值的时间
+    since: number
+    // 是否已经触发了 onVisible
+    visible: boolean
+}
+
+// 创建曝光追踪器：item达到阈值并保持 dwell 毫秒后触发 onVisible，之后不再满足时触发 onHidden
+// option 中的参数每次使用时读取，可以传入 getter 让参数保持最新
+export function createVisibilityTracker<T>(option: VisibilityTrackerOption<T>): VisibilityTracker<T> {
+    const tracked = new Map<unknown, TrackedItem<T>>()
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const toEvent = (entry: TrackedItem<T>, now: number): ItemVisibility<T> => ({
+        item: entry.space.item,
+        index: entry.space.index,
+        ratio: entry.ratio,
+        duration: now - entry.since
+    })
+
+    // 停留时间足够的item触发 onVisible，其余的item在最早到期的时间再检查一次
+    const flush = () => {
+        timer = undefined
+        const now = Date.now()
+        let next = Number.POSITIVE_INFINITY
+        tracked.forEach(entry => {
+            if (entry.visible) {
+                return
+            }
+            const remaining = entry.since + option.dwell - now
+            if (remaining <= 0) {
+                entry.visible = true
+                option.onVisible(toEvent(entry, now))
+            } else {
+                next = Math.min(next, remaining)
+            }
+        })
+        if (next !== Number.POSITIVE_INFINITY) {
+            timer = setTimeout(flush, next)
+        }
+    }
+
+    const update = (spaces: readonly SpaceOption<T>[], viewStart: number, viewSize: number) => {
+        const now = Date.now()
+        const current = new Set<unknown>()
+        const ratios = new Map<unknown, number>()
+        for (const space of spaces) {
+            const key = option.getItemKey(space.item)
+            const ratio = getVisibleRatio(space, viewStart, viewSize)
+            ratios.set(key, ratio)
+            if (ratio <= 0 || ratio < option.threshold) {
+                continue
+            }
+            current.add(key)
+            const entry = tracked.get(key)
+            if (entry) {
+                entry.space = space
+                entry.ratio = ratio
+            } else {
+                tracked.set(key, { space, ratio, since: now, visible: false })
+            }
+        }
+        tracked.forEach((entry, key) => {
+            if (current.has(key)) {
+                return
+            }
+            tracked.delete(key)
+            if (entry.visible) {
+                entry.ratio = ratios.get(key) ?? 0
+                option.onHidden(toEvent(entry, now))
+            }
+        })
+        if (timer !== undefined) {
+            clearTimeout(timer)
+        }
+        flush()
+    }
+
+    const disconnect = () => {
+        if (timer !== undefined) {
+            clearTimeout(timer)
+            timer = undefined
+        }
+        tracked.clear()
+    }
+
+    return {
+        update,
+        disconnect
+    }
+}
@@ -0,0 +1,154 @@
+// 在主线程中使用 worker 计算布局：worker 以内联的方式打包，不需要额外部署文件
+// 依赖 Vite 的 ?worker 导入，不从 core 的入口导出，组件在开启 layoutWorker 时才按需加载
+import LayoutWorker from './layout.worker?worker&inline'
+import { computeLayout, getLastColumns, type LayoutOption, type LayoutState } from './layout'
+import type { PlacementStrategy } from './placement'
+import {
+    canUseLayoutWorker,
+    createLayoutWorkerInput,
+    toLayoutState,
+    type LayoutWorkerInput,
+    type LayoutWorkerRequest,
+    type LayoutWorkerResponse
+} from './worker'
+
+export interface LayoutWorkerClient<T = any> {
+    // 请求计算布局，结果通过 onLayout 返回，期间发起了新的请求时丢弃旧的结果
+    // cache: 当前的布局，传入时和 computeLayout 一样让已有的item保持在原来的列
+    request(option: LayoutOption<T>, cache?: LayoutState<T>): void
+    // 布局在主线程中更新了(例如图片加载后得到了真实尺寸)：丢弃还没有返回的结果，下一次请求时重新采样
+    invalidate(): void
+    // 结束 worker，之后不再返回结果
+    terminate(): void
+}
+
+// 创建在 worker 中计算布局的客户端
+// worker 无法创建或者出错时(例如 CSP 禁止了 blob: 地址)，改为在主线程中计算
+export function createLayoutWorkerClient<T>(
+    onLayout: (state: LayoutState<T>) => void,
+    createWorker: () => Worker = () => new LayoutWorker()
+): LayoutWorkerClient<T> {
+    let worker: Worker | undefined
+    let failed = false
+    let terminated = false
+    let id = 0
+    // 最后一次请求的参数，用于转换结果
+    let pending: LayoutOption<T> | undefined
+    // 最后一次请求时传入的布局，worker 出错后在主线程中计算时使用
+    let pendingCache: LayoutState<T> | undefined
+    // 上一次采样时的数据和方法
+    let sampled: Pick<LayoutOption<T>, 'items' | 'calcItemHeight' | 'calcItemSpan'> | undefined
+    // 上一次采样的高度参数，数据变化时复用没有变化的item，不是一次函数时为 undefined，在主线程中计算，直到重新采样
+    let input: LayoutWorkerInput | undefined
+    let last: LayoutOption<T> | undefined
+
+    const fallback = () => {
+        failed = true
+        worker?.terminate()
+        worker = undefined
+        if (pending && !terminated) {
+            computeSync(pending, pendingCache)
+        }
+    }
+
+    const getWorker = (): Worker | undefined => {
+        if (worker || failed) {
+            return worker
+        }
+        try {
+            worker = createWorker()
+        } catch {
+            failed = true
+            return undefined
+        }
+        worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+            const option = pending
+            if (event.data.id !== id || !option || terminated) {
+                return
+            }
+            pending = undefined
+            pendingCache = undefined
+            onLayout(toLayoutState(event.data.result, option))
+        }
+        worker.onerror = fallback
+        return worker
+    }
+
+    const isSameParams = (a: LayoutOption<T>, b: LayoutOption<T>) =>
+        a.columnCount === b.columnCount && a.itemWidth === b.itemWidth && a.gap === b.gap && a.placement === b.placement
+
+    // 在主线程中计算，丢弃还没有返回的结果
+    const computeSync = (option: LayoutOption<T>, cache?: LayoutState<T>) => {
+        id++
+        pending = undefined
+        pendingCache = undefined
+        let layout = computeLayout(option, cache)
+        if (layout === cache) {
+            // 数据和参数都没有变化，说明是计算高度的方法依赖的数据发生了变化，需要全部重新计算
+            layout = computeLayout(option)
+        }
+        onLayout(layout)
+    }
+
+    const request = (option: LayoutOption<T>, cache?: LayoutState<T>) => {
+        if (terminated) {
+            return
+        }
+        // 没有数据时直接计算，不需要等待 worker
+        const target = option.items.length && option.columnCount && canUseLayoutWorker(option) ? getWorker() : undefined
+        if (!target) {
+            computeSync(option, cache)
+            return
+        }
+        // 方法变化时全部重新采样；数据、方法都相同，参数也相同时仍然发起了请求，说明方法依赖的数据发生了变化，同样全部重新采样
+        // 只有数据变化时，只采样新增或者变化了的item
+        const full =
+            !sampled ||
+            sampled.calcItemHeight !== option.calcItemHeight ||
+            sampled.calcItemSpan !== option.calcItemSpan ||
+            (!!last && isSameParams(last, option))
+        const resample = full || sampled!.items !== option.items
+        const message: LayoutWorkerRequest = {
+            id: ++id,
+            columnCount: option.columnCount,
+            itemWidth: option.itemWidth,
+            gap: option.gap,
+            placement: (option.placement ?? 'shortest') as PlacementStrategy
+        }
+        last = option
+        if (resample) {
+            input = createLayoutWorkerInput(option, full || !input ? undefined : { items: sampled!.items, input })
+            sampled = option
+            // 高度参数保留在主线程中用于下一次采样，发送时复制而不转移
+            message.input = input
+        }
+        if (!input) {
+            computeSync(option, cache)
+            return
+        }
+        message.lastColumns = getLastColumns(option, cache)
+        pending = option
+        pendingCache = cache
+        target.postMessage(message, message.lastColumns ? [message.lastColumns.buffer] : [])
+    }
+
+    const invalidate = () => {
+        id++
+        pending = undefined
+        sampled = undefined
+        input = undefined
+    }
+
+    const terminate = () => {
+        terminated = true
+        pending = undefined
+        worker?.terminate()
+        worker = undefined
+    }
+
+    return {
+        request,
+        invalidate,
+        terminate
+    }
+}
@@ -0,0 +1,247 @@
+// 在 Web Worker 中计算瀑布流布局，避免大量数据在容器大小变化时阻塞主线程
+// 高度计算方法不能传给 worker：数据变化时在主线程中按两个宽度采样，把高度表示为 a × 宽度 + b 后传给 worker，
+// 容器大小变化时只需要传入新的列数和宽度；布局结果以类型数组的形式传回主线程，直接作为 SpaceStore 的底层数组
+// 高度不是宽度的一次函数(例如限制了最小高度、取整)时无法还原，改为在主线程中计算
+import { computeLayout, type LayoutOption, type LayoutState } from './layout'
+import { getPlacementColumn, type PlacementStrategy } from './placement'
+import { createSpaceStoreFromArrays } from './store'
+
+// 采样时使用的两个宽度，高度方法需要是宽度的一次函数(例如按宽高比计算，再加上固定高度的标题)
+const SAMPLE_WIDTHS: [number, number] = [1000, 2000]
+
+// 检查是否是一次函数时允许的误差
+const LINEAR_TOLERANCE = 1e-6
+
+// 检查是否是一次函数时最多检查的item数量，数据量很大时不逐个检查
+const LINEAR_CHECK_COUNT = 64
+
+// 一次函数还原的高度有浮点误差(例如 238.00000000000003)，接近整数时取整，和主线程计算的结果保持一致
+const ROUND_TOLERANCE = 1e-9
+
+function roundHeight(height: number): number {
+    const rounded = Math.round(height)
+    return Math.abs(height - rounded) < ROUND_TOLERANCE ? rounded : height
+}
+
+// 占满整行的元素在 spans 中记为 -1
+const FULL_SPAN = -1
+
+// 和宽度无关的高度参数，数据或者计算方法变化时重新采样
+export interface LayoutWorkerInput {
+    // 高度 = slopes[i] × 宽度 + offsets[i]
+    slopes: Float64Array
+    offsets: Float64Array
+    // 计算单个item占据的列数的结果，0 表示没有设置，-1 表示占满整行
+    spans: Int32Array
+}
+
+// 和宽度有关的布局参数，只支持内置的放置策略
+export interface LayoutWorkerParams {
+    columnCount: number
+    itemWidth: number
+    gap: number
+    placement: PlacementStrategy
+    // 上一次布局中每个item所在的列(getLastColumns 的结果)，已有的item保持在原来的列
+    lastColumns?: Int32Array
+}
+
+// 布局结果，每个数组的第 i 项对应第 i 个元素
+export interface LayoutArrays {
+    tops: Float64Array
+    lefts: Float64Array
+    heights: Float64Array
+    widths: Float64Array
+    columns: Int32Array
+    columnSpans: Int32Array
+    columnsTop: Float64Array
+}
+
+export interface LayoutWorkerRequest extends LayoutWorkerParams {
+    id: number
+    // 只在高度参数变化时传入，worker 保存最后一次收到的参数
+    input?: LayoutWorkerInput
+}
+
+export interface LayoutWorkerResponse {
+    id: number
+    result: LayoutArrays
+}
+
+// 当前环境是否支持 Web Worker(SSR 环境中不支持)
+export function isLayoutWorkerSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof Blob !== 'undefined'
+}
+
+// 可以在 worker 中计算的布局：放置策略是内置的策略
+export function canUseLayoutWorker<T>(option: LayoutOption<T>): boolean {
+    return typeof (option.placement ?? 'shortest') === 'string'
+}
+
+// 上一次采样的数据和结果，数据变化时没有变化的item直接复用之前的高度参数
+export interface LayoutWorkerSample<T = any> {
+    items: readonly T[]
+    input: LayoutWorkerInput
+}
+
+// 采样高度参数，只在主线程中执行
+// 传入上一次采样的结果时，只采样新增或者变化了的item，calcItemHeight / calcItemSpan 需要和上一次相同
+// 在当前的item宽度上再采样一部分新采样的item，检查高度是否是宽度的一次函数，不是时返回 undefined，需要在主线程中计算
+export function createLayoutWorkerInput<T>(
+    option: Pick<LayoutOption<T>, 'items' | 'itemWidth' | 'calcItemHeight' | 'calcItemSpan'>,
+    previous?: LayoutWorkerSample<T>
+): LayoutWorkerInput | undefined {
+    const { items, calcItemHeight, calcItemSpan } = option
+    const [w1, w2] = SAMPLE_WIDTHS
+    const length = items.length
+    const slopes = new Float64Array(length)
+    const offsets = new Float64Array(length)
+    const spans = new Int32Array(length)
+    // 上一次采样中的item: item -> 索引，只在有item的位置变化时才创建
+    let indexes: Map<T, number> | undefined
+    const findPrevious = (item: T, i: number): number | undefined => {
+        if (!previous) {
+            return undefined
+        }
+        if (previous.items[i] === item) {
+            return i
+        }
+        if (!indexes) {
+            indexes = new Map()
+            for (let index = 0; index < previous.items.length; index++) {
+                indexes.set(previous.items[index], index)
+            }
+        }
+        return indexes.get(item)
+    }
+    // 新采样的item的索引
+    const sampled: number[] = []
+    for (let i = 0; i < length; i++) {
+        const item = items[i]
+        const old = findPrevious(item, i)
+        if (old !== undefined) {
+            slopes[i] = previous!.input.slopes[old]
+            offsets[i] = previous!.input.offsets[old]
+        } else {
+            const h1 = calcItemHeight(item, w1)
+            const h2 = calcItemHeight(item, w2)
+            slopes[i] = (h2 - h1) / (w2 - w1)
+            offsets[i] = h1 - slopes[i] * w1
+            sampled.push(i)
+        }
+        if (calcItemSpan) {
+            // 列数和索引有关，位置不变时才复用
+            if (old === i) {
+                spans[i] = previous!.input.spans[i]
+            } else {
+                const span = calcItemSpan(item, i)
+                spans[i] = span === 'full' ? FULL_SPAN : Math.floor(span) || 0
+            }
+        }
+    }
+    return isLinearSample(option, slopes, offsets, sampled) ? { slopes, offsets, spans } : undefined
+}
+
+// 检查新采样的item的高度是否是宽度的一次函数，最多检查 LINEAR_CHECK_COUNT 个均匀分布的item
+function isLinearSample<T>(
+    option: Pick<LayoutOption<T>, 'items' | 'itemWidth' | 'calcItemHeight'>,
+    slopes: Float64Array,
+    offsets: Float64Array,
+    sampled: readonly number[]
+): boolean {
+    const { items, itemWidth, calcItemHeight } = option
+    const [w1, w2] = SAMPLE_WIDTHS
+    // 检查用的宽度和采样的宽度相同时无法检查出问题，改用两个宽度的中点
+    const w3 = itemWidth > 0 && itemWidth !== w1 && itemWidth !== w2 ? itemWidth : (w1 + w2) / 2
+    const step = Math.max(1, Math.ceil(sampled.length / LINEAR_CHECK_COUNT))
+    for (let k = 0; k < sampled.length; k += step) {
+        const i = sampled[k]
+        const h3 = calcItemHeight(items[i], w3)
+        if (!(Math.abs(slopes[i] * w3 + offsets[i] - h3) <= LINEAR_TOLERANCE * Math.max(1, Math.abs(h3)))) {
+            return false
+        }
+    }
+    return true
+}
+
+// 按高度参数计算布局，在 worker 中执行，和 computeLayout 的结果相同
+export function computeLayoutArrays(input: LayoutWorkerInput, params: LayoutWorkerParams): LayoutArrays {
+    const { slopes, offsets, spans } = input
+    const { lastColumns } = params
+    const length = slopes.length
+    // 使用索引作为item，高度和列数从类型数组中读取
+    const items = new Array<number>(length)
+    for (let i = 0; i < length; i++) {
+        items[i] = i
+    }
+    const state = computeLayout<number>({
+        items,
+        columnCount: params.columnCount,
+        itemWidth: params.itemWidth,
+        gap: params.gap,
+        // 没有缓存，按上一次布局中的列设置 lastColumn，结果和主线程中传入缓存时相同
+        placement: lastColumns
+            ? context => {
+                  const column = context.index < lastColumns.length ? lastColumns[context.index] : -1
+                  context.lastColumn = column >= 0 ? column : undefined
+                  return getPlacementColumn(params.placement, context)
+              }
+            : params.placement,
+        calcItemHeight: (i, width) => roundHeight(slopes[i] * width + offsets[i]),
+        calcItemSpan: (i: number) => (spans[i] === FULL_SPAN ? 'full' : spans[i])
+    })
+
+    const result: LayoutArrays = {
+        tops: new Float64Array(length),
+        lefts: new Float64Array(length),
+        heights: new Float64Array(length),
+        widths: new Float64Array(length),
+        columns: new Int32Array(length),
+        columnSpans: new Int32Array(length),
+        columnsTop: Float64Array.from(state.columnsTop)
+    }
+    const { spaces } = state
+    for (let i = 0; i < spaces.length; i++) {
+        result.tops[i] = spaces.top(i)
+        result.lefts[i] = spaces.left(i)
+        result.heights[i] = spaces.height(i)
+        result.widths[i] = spaces.width(i)
+        result.columns[i] = spaces.column(i)
+        result.columnSpans[i] = spaces.columnSpan(i)
+    }
+    return result
+}
+
+// 布局结果中的类型数组，传给主线程时转移所有权，避免复制
+export function getLayoutTransfer(result: LayoutArrays): ArrayBuffer[] {
+    return [result.tops, result.lefts, result.heights, result.widths, result.columns, result.columnSpans, result.columnsTop].map(
+        array => array.buffer as ArrayBuffer
+    )
+}
+
+// 把 worker 返回的结果转换成布局状态，option 需要和请求时的参数相同
+// 返回的状态可以作为之后 computeLayout 的缓存
+export function toLayoutState<T>(result: LayoutArrays, option: LayoutOption<T>): LayoutState<T> {
+    const { items, columnCount, itemWidth, gap, calcItemHeight, calcItemSpan, placement = 'shortest' } = option
+    const spaces = createSpaceStoreFromArrays(items, result)
+    const columns: number[][] = []
+    for (let c = 0; c < columnCount; c++) {
+        columns.push([])
+    }
+    for (let i = 0; i < spaces.length; i++) {
+        const column = spaces.column(i)
+        const columnSpan = spaces.columnSpan(i)
+        for (let c = column; c < column + columnSpan; c++) {
+            columns[c].push(i)
+        }
+    }
+    return {
+        spaces,
+        columnsTop: Array.from(result.columnsTop),
+        columns,
+        itemWidth,
+        gap,
+        calcItemHeight,
+        calcItemSpan,
+        placement
+    }
+}
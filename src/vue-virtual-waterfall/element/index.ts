@@ -0,0 +1,14 @@
+import { VirtualWaterfallElement } from './virtual-waterfall-element'
+
+export { VirtualWaterfallElement, defineVirtualWaterfall } from './virtual-waterfall-element'
+export type { ItemVisibilityDetail, RangeChangeDetail, RenderItem, VirtualWaterfallElementOption } from './virtual-waterfall-element'
+
+// 布局核心，不依赖框架，可以单独使用
+export * from '../core'
+
+// 使用默认的标签名注册时，document.createElement / querySelector 可以推断出元素类型
+declare global {
+    interface HTMLElementTagNameMap {
+        'virtual-waterfall': VirtualWaterfallElement
+    }
+}
@@ -0,0 +1,648 @@
+// Web Component 版本的瀑布流: <virtual-waterfall>，不依赖 Vue / React，和组件使用同一套布局核心
+// 数据通过 items 属性传入，item通过 renderItem 方法或者子元素中的 <template> 渲染，渲染在 light DOM 中，页面的样式可以直接生效
+import {
+    applyItemHeights,
+    computeLayout,
+    createHeightObserver,
+    createVisibilityTracker,
+    findAnchorSpace,
+    findSpaceIndex,
+    getBottomDistance,
+    getColumnCount,
+    getContainerHeight,
+    getItemWidth,
+    getScrollPosition,
+    getScrollTopToSpace,
+    getViewStart,
+    getViewportSize,
+    getVisibleLimits,
+    getVisibleRange,
+    getVisibleSpacesInColumns,
+    isMeasureSupported,
+    isSameRange,
+    isWindow,
+    resolveBreakpoint,
+    resolveScrollElement,
+    scrollByDelta,
+    scrollToPosition,
+    type Breakpoints,
+    type HeightObserver,
+    type ItemSpan,
+    type ItemVisibility,
+    type LayoutOption,
+    type LayoutState,
+    type MeasuredHeight,
+    type Placement,
+    type ScrollElement,
+    type ScrollElementOption,
+    type ScrollToOption,
+    type SpaceOption,
+    type VisibleRange
+} from '../core'
+
+// 渲染单个item，返回的节点放入item的包裹元素中
+export type RenderItem<T = any> = (item: T, index: number) => Node
+
+// range-change 事件的参数，包含视口中第一个 / 最后一个item的索引
+export type RangeChangeDetail = VisibleRange
+
+// item-visible / item-hidden 事件的参数
+export type ItemVisibilityDetail<T = any> = ItemVisibility<T>
+
+export interface VirtualWaterfallElementOption<T = any> {
+    // 数据
+    items: readonly T[]
+    // 渲染单个item，不设置时使用子元素中的 <template>
+    renderItem?: RenderItem<T>
+    // 计算单个item高度的方法，开启 autoMeasure 时作为预估高度
+    calcItemHeight: (item: T, itemWidth: number) => number
+    // 计算单个item占据的列数: 数字或者 'full'(占满整行)
+    calcItemSpan?: (item: T, index: number) => ItemSpan
+    // 放置策略: shortest / sequential / balanced 或者自定义方法
+    placement: Placement<T>
+    // item的唯一标识字段，attribute: row-key
+    rowKey: string
+    // item间隔，attribute: gap
+    gap: number
+    // 容器内边距，attribute: padding
+    padding: number | string
+    // item最小宽度，attribute: item-min-width
+    itemMinWidth: number
+    // 最小列数，attribute: min-column-count
+    minColumnCount: number
+    // 最大列数，attribute: max-column-count
+    maxColumnCount: number
+    // 上下预加载的屏数
+    preloadScreenCount: [number, number]
+    // 响应式断点: 容器宽度 -> { columns, gap, padding, itemMinWidth }
+    breakpoints?: Breakpoints
+    // 滚动容器: 元素、选择器或者window，默认使用最近的可滚动祖先元素
+    scrollElement?: ScrollElementOption
+    // 是否只渲染可见范围内的item，attribute: virtual，设置为 "false" 时关闭
+    virtual: boolean
+    // 是否自动测量item的真实高度，attribute: auto-measure
+    autoMeasure: boolean
+    // item在视口中的比例达到多少时触发 item-visible，attribute: visibility-threshold
+    visibilityThreshold: number
+    // item保持可见多长时间(毫秒)后才触发 item-visible，attribute: visibility-dwell
+    visibilityDwell: number
+    // 距离底部多少时触发加载更多，attribute: bottom-distance
+    bottomDistance: number
+    // 是否正在加载，attribute: loading
+    loading: boolean
+    // 是否已经没有更多数据，attribute: finished
+    finished: boolean
+    // 是否加载失败，attribute: error
+    error: boolean
+}
+
+// 属性的默认值，和组件的默认值相同
+const DEFAULT_OPTION: VirtualWaterfallElementOption = {
+    items: [],
+    renderItem: undefined,
+    calcItemHeight: () => 250,
+    calcItemSpan: undefined,
+    placement: 'shortest',
+    rowKey: 'id',
+    gap: 15,
+    padding: 15,
+    itemMinWidth: 220,
+    minColumnCount: 2,
+    maxColumnCount: 10,
+    preloadScreenCount: [0, 0],
+    breakpoints: undefined,
+    scrollElement: undefined,
+    virtual: true,
+    autoMeasure: false,
+    visibilityThreshold: 0.5,
+    visibilityDwell: 0,
+    bottomDistance: 0,
+    loading: false,
+    finished: false,
+    error: false
+}
+
+type OptionKey = keyof VirtualWaterfallElementOption
+
+// 值的类型为 V 的属性
+type OptionKeyOf<V> = { [K in OptionKey]: VirtualWaterfallElementOption[K] extends V ? K : never }[OptionKey]
+
+// 数字 attribute 和对应的属性
+const NUMBER_ATTRIBUTES: Record<string, OptionKeyOf<number>> = {
+    gap: 'gap',
+    'item-min-width': 'itemMinWidth',
+    'min-column-count': 'minColumnCount',
+    'max-column-count': 'maxColumnCount',
+    'bottom-distance': 'bottomDistance',
+    'visibility-threshold': 'visibilityThreshold',
+    'visibility-dwell': 'visibilityDwell'
+}
+
+// 布尔 attribute 和对应的属性: 存在并且不为 "false" 时为 true，移除后恢复默认值
+const BOOLEAN_ATTRIBUTES: Record<string, OptionKeyOf<boolean>> = {
+    virtual: 'virtual',
+    'auto-measure': 'autoMeasure',
+    loading: 'loading',
+    finished: 'finished',
+    error: 'error'
+}
+
+// 模板中的占位符: {{ field }}、{{ a.b }}，{{ $index }} 为item的索引
+const PLACEHOLDER = /\{\{\s*([\w$.]+)\s*\}\}/g
+
+function interpolate(text: string, item: any, index: number): string {
+    return text.replace(PLACEHOLDER, (_, path: string) => {
+        const value = path === '$index' ? index : path.split('.').reduce((result, key) => result?.[key], item)
+        return value === undefined || value === null ? '' : String(value)
+    })
+}
+
+// 使用 <template> 渲染item: 复制模板的内容，把文本和 attribute 中的占位符替换为item中对应的值
+// 替换的是文本而不是 HTML，item中的数据不会被当作标签解析
+function renderTemplate(template: HTMLTemplateElement, item: any, index: number): Node {
+    const fragment = template.content.cloneNode(true) as DocumentFragment
+    const walker = document.createTreeWalker(fragment, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT)
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (node.nodeType === Node.TEXT_NODE) {
+            if (node.nodeValue?.includes('{{')) {
+                node.nodeValue = interpolate(node.nodeValue, item, index)
+            }
+            continue
+        }
+        for (const attribute of Array.from((node as Element).attributes)) {
+            if (attribute.value.includes('{{')) {
+                attribute.value = interpolate(attribute.value, item, index)
+            }
+        }
+    }
+    return fragment
+}
+
+function isNumber(value: any): value is number {
+    return Object.prototype.toString.call(value) === '[object Number]'
+}
+
+// 读取item中的字段，item不是对象时返回 undefined
+function getField(item: unknown, key: string): unknown {
+    return typeof item === 'object' && item !== null ? Reflect.get(item, key) : undefined
+}
+
+// SSR 环境中没有 HTMLElement，避免引入时报错
+const BaseElement = (typeof HTMLElement === 'undefined' ? class {} : HTMLElement) as typeof HTMLElement
+
+export class VirtualWaterfallElement<T = any> extends BaseElement {
+    static observedAttributes = [...Object.keys(NUMBER_ATTRIBUTES), ...Object.keys(BOOLEAN_ATTRIBUTES), 'padding', 'row-key']
+
+    // 每个属性的 getter / setter: 读取 option 中的值，修改后重新渲染
+    static {
+        const properties = {} as Record<OptionKey, PropertyDescriptor>
+        for (const key of Object.keys(DEFAULT_OPTION) as OptionKey[]) {
+            properties[key] = {
+                get(this: VirtualWaterfallElement) {
+                    return this.option[key]
+                },
+                set(this: VirtualWaterfallElement, value: VirtualWaterfallElementOption[OptionKey]) {
+                    this.setOption(key, value)
+                },
+                configurable: true
+            }
+        }
+        Object.defineProperties(this.prototype, properties)
+    }
+
+    private option: VirtualWaterfallElementOption<T> = { ...DEFAULT_OPTION }
+
+    // 上一次的布局结果
+    private layoutState: LayoutState<T> | undefined
+
+    // 容器内容区域的宽度，以及包含内边距的宽度(用于匹配断点)
+    private contentWidth = 0
+    private containerWidth = 0
+
+    // 已经渲染的item: 渲染时使用的key -> 包裹元素
+    private rendered = new Map<unknown, HTMLElement>()
+    // 包裹元素中渲染的item，变化后重新渲染内容
+    private renderedItems = new WeakMap<HTMLElement, T>()
+
+    // 测量得到的真实高度: key -> 高度，只在当前的itemWidth下有效
+    private measuredHeights = new Map<unknown, number>()
+    private measuredWidth = 0
+
+    private scrollTarget: ScrollElement | undefined
+    private resizeObserver: ResizeObserver | undefined
+    private heightObserver: HeightObserver | undefined
+    private frame = 0
+
+    // 上一次触发事件时的状态，避免重复触发
+    private lastRange: VisibleRange | undefined
+    // item-visible / item-hidden 事件的 detail 为 ItemVisibility
+    private visibilityTracker = this.createVisibilityTracker()
+    private lastReachBottom = false
+    private lastLoadMoreLength = -1
+
+    connectedCallback() {
+        // 元素定义之前设置的属性会遮住原型上的 setter，重新设置一次
+        for (const key of Object.keys(DEFAULT_OPTION) as OptionKey[]) {
+            if (Object.prototype.hasOwnProperty.call(this, key)) {
+                const value = this[key]
+                Reflect.deleteProperty(this, key)
+                this.setOption(key, value)
+            }
+        }
+
+        this.style.display = this.style.display || 'block'
+        this.style.position = 'relative'
+        // 高度由布局决定，不包含内边距
+        this.style.boxSizing = 'content-box'
+
+        this.resizeObserver = new ResizeObserver(entries => {
+            for (const entry of entries) {
+                // 同时观察了作为滚动容器的元素，只需要重新渲染
+                if (entry.target !== this) {
+                    continue
+                }
+                const size = entry.borderBoxSize && entry.borderBoxSize[0]
+                this.contentWidth = entry.contentRect.width
+                this.containerWidth = size ? size.inlineSize : this.offsetWidth
+            }
+            this.scheduleRender()
+        })
+        this.resizeObserver.observe(this)
+
+        if (isMeasureSupported()) {
+            this.heightObserver = createHeightObserver(measured => this.onMeasure(measured))
+        }
+
+        this.bindScrollElement()
+        this.scheduleRender()
+    }
+
+    disconnectedCallback() {
+        this.unbindScrollElement()
+        this.resizeObserver?.disconnect()
+        this.heightObserver?.disconnect()
+        this.resizeObserver = undefined
+        this.heightObserver = undefined
+        this.visibilityTracker.disconnect()
+        if (this.frame) {
+            cancelAnimationFrame(this.frame)
+            this.frame = 0
+        }
+    }
+
+    attributeChangedCallback(name: string, _oldValue: string | null, value: string | null) {
+        if (name in NUMBER_ATTRIBUTES) {
+            const key = NUMBER_ATTRIBUTES[name]
+            this[key] = value === null || Number.isNaN(Number(value)) ? DEFAULT_OPTION[key] : Number(value)
+        } else if (name in BOOLEAN_ATTRIBUTES) {
+            const key = BOOLEAN_ATTRIBUTES[name]
+            this[key] = value === null ? DEFAULT_OPTION[key] : value !== 'false'
+        } else if (name === 'padding') {
+            // 数字按像素处理，否则作为 CSS 的 padding
+            this.padding = value === null ? DEFAULT_OPTION.padding : Number.isNaN(Number(value)) ? value : Number(value)
+        } else if (name === 'row-key') {
+            this.rowKey = value ?? DEFAULT_OPTION.rowKey
+        }
+    }
+
+    // 修改属性后在下一帧重新渲染，同一帧中的多次修改只渲染一次
+    // 值没有变化时也重新渲染，例如直接修改了 items 数组之后再赋值一次
+    private setOption<K extends OptionKey>(key: K, value: VirtualWaterfallElementOption<T>[K]) {
+        const changed = this.option[key] !== value
+        this.option[key] = value
+        if (changed && (key === 'calcItemHeight' || key === 'autoMeasure')) {
+            // 计算高度的方法变化后，之前的结果和测量的高度都不能复用
+            this.measuredHeights.clear()
+            this.layoutState = undefined
+        }
+        if (changed && key === 'scrollElement' && this.isConnected) {
+            this.unbindScrollElement()
+            this.bindScrollElement()
+        }
+        this.scheduleRender()
+    }
+
+    // 滚动到指定索引的item，item渲染完成后返回它的包裹元素
+    scrollToIndex(index: number, option: ScrollToOption = {}): Promise<HTMLElement | undefined> {
+        this.render()
+        const space = this.layoutState?.spaces.get(index)
+        const target = this.scrollTarget
+        if (!space || !target) {
+            return Promise.resolve(undefined)
+        }
+        const position = getScrollTopToSpace(
+            space,
+            getViewStart(this, target),
+            getViewportSize(target),
+            getScrollPosition(target),
+            option
+        )
+        scrollToPosition(target, position, 'vertical', option.behavior)
+        return this.waitForRender(index)
+    }
+
+    // 滚动到指定rowKey的item
+    scrollToKey(key: unknown, option?: ScrollToOption): Promise<HTMLElement | undefined> {
+        return this.scrollToIndex(this.findIndexByKey(key), option)
+    }
+
+    // item的内容变化后，重新计算它的高度，并从它所在的位置开始重新布局
+    // keyOrIndex: 优先按rowKey查找，找不到时作为索引
+    invalidate(keyOrIndex: unknown) {
+        let index = this.findIndexByKey(keyOrIndex)
+        if (index < 0 && typeof keyOrIndex === 'number') {
+            index = keyOrIndex
+        }
+        const space = this.layoutState?.spaces.get(index)
+        if (!space || !this.layoutState) {
+            return
+        }
+        this.measuredHeights.delete(this.getItemKey(space.item))
+        const { columnsTop, itemWidth, gap } = this.layoutState
+        this.layoutState = computeLayout(this.getLayoutOption(columnsTop.length, itemWidth, gap), this.layoutState, [index])
+        // 重新渲染item的内容
+        const element = this.rendered.get(this.getRenderKey(space))
+        if (element) {
+            this.renderedItems.delete(element)
+        }
+        this.scheduleRender()
+    }
+
+    private findIndexByKey(key: unknown): number {
+        return this.layoutState ? findSpaceIndex(this.layoutState.spaces, item => this.getItemKey(item) === key) : -1
+    }
+
+    private getItemKey = (item: T): unknown => getField(item, this.option.rowKey) ?? item
+
+    // 渲染时使用的key: rowKey 对应的值，没有时使用索引
+    private getRenderKey(space: SpaceOption<T>): unknown {
+        return getField(space.item, this.option.rowKey) ?? space.index
+    }
+
+    // 已测量的item使用真实高度，否则使用预估高度
+    private calcMeasuredHeight = (item: T, width: number): number =>
+        this.measuredHeights.get(this.getItemKey(item)) ?? this.option.calcItemHeight(item, width)
+
+    private getLayoutOption(columnCount: number, itemWidth: number, gap: number): LayoutOption<T> {
+        const { items, calcItemHeight, calcItemSpan, placement } = this.option
+        return {
+            items,
+            columnCount,
+            itemWidth,
+            gap,
+            calcItemHeight: this.option.autoMeasure ? this.calcMeasuredHeight : calcItemHeight,
+            calcItemSpan,
+            placement,
+            getItemKey: this.getItemKey
+        }
+    }
+
+    private scheduleRender() {
+        if (this.frame || typeof requestAnimationFrame === 'undefined') {
+            return
+        }
+        this.frame = requestAnimationFrame(() => {
+            this.frame = 0
+            this.render()
+        })
+    }
+
+    private onScroll = () => this.scheduleRender()
+
+    private bindScrollElement() {
+        const target = resolveScrollElement(this.option.scrollElement, this)
+        this.scrollTarget = target
+        if (!target) {
+            return
+        }
+        target.addEventListener('scroll', this.onScroll, { passive: true })
+        window.addEventListener('resize', this.onScroll)
+        // 滚动容器是元素时，它的高度可能独立于窗口变化
+        if (!isWindow(target)) {
+            this.resizeObserver?.observe(target)
+        }
+    }
+
+    private unbindScrollElement() {
+        const target = this.scrollTarget
+        if (!target) {
+            return
+        }
+        target.removeEventListener('scroll', this.onScroll)
+        window.removeEventListener('resize', this.onScroll)
+        if (!isWindow(target)) {
+            this.resizeObserver?.unobserve(target)
+        }
+        this.scrollTarget = undefined
+    }
+
+    // 计算布局并渲染可见范围内的item
+    private render() {
+        if (!this.isConnected || !this.contentWidth) {
+            return
+        }
+        const option = this.option
+        const breakpoint = resolveBreakpoint(this.containerWidth, option.breakpoints)
+        const padding = breakpoint.padding ?? option.padding
+        this.style.padding = isNumber(padding) ? `${padding}px` : padding
+
+        const gap = breakpoint.gap ?? option.gap
+        const columnCount =
+            breakpoint.columns ??
+            getColumnCount(this.contentWidth, {
+                itemMinWidth: breakpoint.itemMinWidth ?? option.itemMinWidth,
+                maxColumnCount: option.maxColumnCount,
+                minColumnCount: option.minColumnCount
+            })
+        const itemWidth = getItemWidth(this.contentWidth, columnCount, gap)
+
+        // 宽度变化后，之前测量的高度不再准确
+        if (this.measuredWidth !== itemWidth) {
+            this.measuredWidth = itemWidth
+            this.measuredHeights.clear()
+        }
+
+        // 只从第一个发生变化的item开始计算，已有的item尽量保持在原来的列
+        const state = computeLayout(this.getLayoutOption(columnCount, itemWidth, gap), this.layoutState)
+        this.layoutState = state
+        const itemsSize = getContainerHeight(state.columnsTop)
+        this.style.height = `${itemsSize}px`
+
+        const target = this.scrollTarget
+        const viewStart = target ? getViewStart(this, target) : 0
+        const viewSize = target ? getViewportSize(target) : 0
+
+        let list: SpaceOption<T>[]
+        if (option.virtual) {
+            const [minLimit, maxLimit] = getVisibleLimits(viewStart, viewSize, option.preloadScreenCount)
+            list = getVisibleSpacesInColumns(state.spaces, state.columns, minLimit, maxLimit)
+        } else {
+            list = state.spaces.toArray()
+        }
+        this.renderItems(list)
+        this.emitEvents(state, list, itemsSize, viewStart, viewSize)
+    }
+
+    // 复用已经渲染的包裹元素(按key对应)，只有item变化时才重新渲染内容，只是位置变化时只更新 data-index
+    private renderItems(list: readonly SpaceOption<T>[]) {
+        const template = this.querySelector<HTMLTemplateElement>(':scope > template')
+        const keys = new Set<unknown>()
+
+        for (const space of list) {
+            const key = this.getRenderKey(space)
+            keys.add(key)
+            let element = this.rendered.get(key)
+            if (!element) {
+                element = document.createElement('div')
+                this.rendered.set(key, element)
+                this.appendChild(element)
+            }
+            element.dataset.index = String(space.index)
+            this.setItemStyle(element, space)
+
+            if (!this.renderedItems.has(element) || this.renderedItems.get(element) !== space.item) {
+                this.renderedItems.set(element, space.item)
+                const content = this.option.renderItem
+                    ? this.option.renderItem(space.item, space.index)
+                    : template
+                      ? renderTemplate(template, space.item, space.index)
+                      : undefined
+                element.replaceChildren(...(content ? [content] : []))
+            }
+        }
+
+        this.rendered.forEach((element, key) => {
+            if (!keys.has(key)) {
+                element.remove()
+                this.rendered.delete(key)
+            }
+        })
+
+        this.heightObserver?.sync(this.option.autoMeasure ? this.rendered.values() : [])
+    }
+
+    // 测量高度时不设置高度，让item按内容撑开
+    private setItemStyle(element: HTMLElement, space: SpaceOption<T>) {
+        const style = element.style
+        style.position = 'absolute'
+        style.width = `${space.width}px`
+        style.transform = `translate(${space.left}px, ${space.top}px)`
+        if (this.option.autoMeasure) {
+            style.height = ''
+            style.contentVisibility = ''
+            style.containIntrinsicSize = ''
+        } else {
+            style.height = `${space.height}px`
+            style.contentVisibility = 'auto'
+            style.containIntrinsicSize = `${space.width}px ${space.height}px`
+        }
+    }
+
+    // 曝光追踪，参数通过 getter 读取，保持最新
+    private createVisibilityTracker() {
+        const option = this.option
+        return createVisibilityTracker<T>({
+            get threshold() {
+                return option.visibilityThreshold
+            },
+            get dwell() {
+                return option.visibilityDwell
+            },
+            getItemKey: item => this.getItemKey(item),
+            onVisible: event => this.dispatchEvent(new CustomEvent<ItemVisibilityDetail<T>>('item-visible', { detail: event })),
+            onHidden: event => this.dispatchEvent(new CustomEvent<ItemVisibilityDetail<T>>('item-hidden', { detail: event }))
+        })
+    }
+
+    private emitEvents(state: LayoutState<T>, rendered: readonly SpaceOption<T>[], itemsSize: number, viewStart: number, viewSize: number) {
+        if (!viewSize) {
+            return
+        }
+        const range = getVisibleRange(state.spaces, state.columns, rendered, viewStart, viewSize)
+        if (!isSameRange(range, this.lastRange)) {
+            this.lastRange = range
+            this.dispatchEvent(new CustomEvent<RangeChangeDetail>('range-change', { detail: range }))
+        }
+        this.visibilityTracker.update(
+            range.visible.map(index => state.spaces.get(index)!),
+            viewStart,
+            viewSize
+        )
+
+        const { bottomDistance, loading, finished, error, items } = this.option
+        const reachBottom = getBottomDistance(itemsSize, viewStart, viewSize) <= bottomDistance
+        if (reachBottom && !this.lastReachBottom) {
+            this.dispatchEvent(new CustomEvent('reach-bottom'))
+        }
+        this.lastReachBottom = reachBottom
+
+        // 滚动到底部时加载更多，加载完成后如果内容仍然不够一屏，继续加载
+        if (reachBottom && !loading && !finished && !error) {
+            if (this.lastLoadMoreLength !== items.length) {
+                this.lastLoadMoreLength = items.length
+                this.dispatchEvent(new CustomEvent('load-more'))
+            }
+        } else {
+            this.lastLoadMoreLength = -1
+        }
+    }
+
+    // 应用测量结果: 只重排受影响的列，并保持视口中的元素位置不变
+    private onMeasure(measured: MeasuredHeight[]) {
+        const state = this.layoutState
+        if (!state) {
+            return
+        }
+        const heights = new Map<number, number>()
+        for (const { element, height } of measured) {
+            const space = state.spaces.get(Number(element.dataset.index))
+            if (!space || Math.abs(space.height - height) < 0.5) {
+                continue
+            }
+            this.measuredHeights.set(this.getItemKey(space.item), height)
+            heights.set(space.index, height)
+        }
+        if (!heights.size) {
+            return
+        }
+
+        const next = applyItemHeights(state, heights)
+        const target = this.scrollTarget
+        if (target) {
+            const anchor = findAnchorSpace(state.spaces, state.columns, getViewStart(this, target))
+            const delta = anchor ? next.spaces.top(anchor.index) - anchor.top : 0
+            if (delta) {
+                scrollByDelta(target, delta)
+            }
+        }
+        this.layoutState = next
+        this.render()
+    }
+
+    // 等待指定的item渲染完成，返回它的包裹元素
+    private waitForRender(index: number, timeout = 3000): Promise<HTMLElement | undefined> {
+        const start = performance.now()
+        return new Promise(resolve => {
+            const check = () => {
+                const element = this.querySelector<HTMLElement>(`:scope > [data-index="${index}"]`)
+                // 平滑滚动可能被用户打断，避免一直等待
+                if (element || performance.now() - start > timeout) {
+                    resolve(element ?? undefined)
+                    return
+                }
+                requestAnimationFrame(check)
+            }
+            check()
+        })
+    }
+}
+
+// 属性的类型声明，getter / setter 在类的静态块中统一定义
+export interface VirtualWaterfallElement<T = any> extends VirtualWaterfallElementOption<T> {}
+
+// 注册自定义元素，已经注册过时不重复注册
+export function defineVirtualWaterfall(tagName = 'virtual-waterfall') {
+    if (typeof customElements !== 'undefined' && !customElements.get(tagName)) {
+        customElements.define(tagName, VirtualWaterfallElement)
+    }
+}
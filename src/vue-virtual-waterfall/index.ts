@@ -2,6 +2,12 @@ import type { App } from 'vue'
 import VirtualWaterfall from './virtual-waterfall.vue'
 
 export { VirtualWaterfall }
+export type { VirtualWaterfallExpose, VirtualWaterfallOption } from './types'
+
+// 布局核心，不依赖框架，可以单独使用
+export * from './core'
+// 元素空间信息，通过 withItemSpaces 读取
+export type { SpaceOption } from './core'
 
 export default {
     install(app: App) {
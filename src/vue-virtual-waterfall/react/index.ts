@@ -0,0 +1,5 @@
+export { VirtualWaterfall } from './virtual-waterfall'
+export type { VirtualWaterfallHandle, VirtualWaterfallItemSpace, VirtualWaterfallProps } from './virtual-waterfall'
+
+// 布局核心，不依赖框架，可以单独使用
+export * from '../core'
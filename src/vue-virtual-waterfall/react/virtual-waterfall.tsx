@@ -0,0 +1,1230 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react'
+import {
+    animateEnter,
+    animateLeave,
+    applyItemHeights,
+    computeJustifiedLayout,
+    computeLayout,
+    createHeightObserver,
+    createImageItemHeight,
+    createImageItemRatio,
+    createLayoutSnapshot,
+    createEmptySpaceStore,
+    createGroupItemHeight,
+    createGroupItemSpan,
+    createVisibilityTracker,
+    isImageInRange,
+    isJustifiedLayout,
+    isLayoutWorkerSupported,
+    isMeasureSupported,
+    isSameRange,
+    getBottomDistance,
+    getColumnCount,
+    getContainerHeight,
+    getImageExtraHeight,
+    getImageRatio,
+    getImageStyle,
+    getItemWidth,
+    getMinContainerWidth,
+    getMoveTransition,
+    prefersReducedMotion,
+    findAnchorSpace,
+    findSnapshotAnchor,
+    findSpaceIndex,
+    flattenGroups,
+    getGroupHeaderIndex,
+    getGroupKey,
+    getStickyHeader,
+    getAdjacentIndex,
+    getAdjacentRowIndex,
+    getScrollPosition,
+    getScrollTopToSpace,
+    getVisibleLimits,
+    getVisibleRange,
+    getVisibleSpacesInColumns,
+    getViewportSize,
+    getViewStart,
+    isWindow,
+    recordImageSize,
+    resolveBreakpoint,
+    resolveScrollElement,
+    resolveTransition,
+    restoreJustifiedLayout,
+    restoreLayout,
+    scrollByDelta,
+    scrollToPosition,
+    type ScrollDirection,
+    type ScrollElement,
+    type Breakpoints,
+    type GetItemImage,
+    type HeightObserver,
+    type ImageSizeCache,
+    type ItemSpan,
+    type ItemVisibility,
+    type Placement,
+    type ScrollElementOption,
+    type LayoutOption,
+    type LayoutSnapshot,
+    type MeasuredHeight,
+    type NavigationDirection,
+    type JustifiedLayoutOption,
+    type JustifiedLayoutState,
+    type LayoutState,
+    type ScrollToOption,
+    type SpaceOption,
+    type SpaceStore,
+    type TransitionOption,
+    type GroupHeaderHeight,
+    type WaterfallGroup,
+    type VisibleRange
+} from '../core'
+import type { LayoutWorkerClient } from '../core/worker-client'
+
+export type VirtualWaterfallItemSpace<T = any> = SpaceOption<T>
+
+const EMPTY_SPACES: SpaceStore = createEmptySpaceStore()
+const EMPTY_ITEMS: any[] = []
+
+export interface VirtualWaterfallProps<T = any> {
+    // 布局模式: waterfall(瀑布流) / justified(等高行，每行撑满容器宽度)
+    mode?: 'waterfall' | 'justified'
+    // 滚动方向: vertical(纵向) / horizontal(横向，列变成行，向右增长)
+    direction?: ScrollDirection
+    virtual?: boolean
+    rowKey?: keyof T | 'id'
+    enableCache?: boolean
+    // 是否在 Web Worker 中计算瀑布流布局，新的布局计算完成之前继续展示之前的布局
+    // calcItemHeight 需要是宽度的一次函数，只支持内置的放置策略，justified 模式和 autoMeasure 时不生效
+    layoutWorker?: boolean
+    gap?: number
+    padding?: number | string
+    preloadScreenCount?: [number, number]
+    itemMinWidth?: number
+    maxColumnCount?: number
+    minColumnCount?: number
+    items?: T[]
+    // 分组数据: [{ key, items, ...标题中使用的字段 }]，设置后 items 不生效，只支持 waterfall 模式
+    // 每组的标题通过 renderGroupHeader 渲染并占满整行，这一组的item从标题下方重新开始排列
+    groups?: WaterfallGroup<T>[]
+    // 分组标题的高度(横向滚动时为宽度)，或者按分组计算的方法，开启 autoMeasure 时作为预估高度
+    groupHeaderHeight?: GroupHeaderHeight<WaterfallGroup<T>>
+    // 分组标题是否吸顶：分组的内容在视口中时，标题停留在视口顶部，直到被下一组的标题推出
+    stickyHeader?: boolean
+    // 计算单个item高度的方法，开启 autoMeasure 时作为预估高度
+    calcItemHeight?: (item: T, itemWidth: number) => number
+    // 计算单个item占据的列数: 数字或者 'full'(占满整行)，用于横幅、广告等跨列的item
+    calcItemSpan?: (item: T, index: number) => ItemSpan
+    // 放置策略: shortest(高度最小的列) / sequential(按顺序从左到右) / balanced(列高尽量平衡) 或者自定义方法
+    placement?: Placement<T>
+    // justified 模式的目标行高
+    rowHeight?: number
+    // justified 模式中计算单个item的宽高比(宽 / 高)，默认使用item的 width / height
+    calcItemRatio?: (item: T, index: number) => number
+    // 是否自动测量item的真实高度
+    autoMeasure?: boolean
+    // 图片模式: 返回item的图片 { src, width, height }，按图片的宽高比预留位置，并在item中渲染图片
+    // 只加载视口和预加载屏中的图片，宽高未知时先使用 calcItemHeight / calcItemRatio 的预估值，加载后重新布局
+    image?: GetItemImage<T>
+    renderItem: (item: T, index: number) => React.ReactNode
+    // 渲染分组的标题，index 为分组的索引
+    renderGroupHeader?: (group: WaterfallGroup<T>, index: number) => React.ReactNode
+    // 滚动容器: 元素、ref、选择器或者window，默认使用最近的可滚动祖先元素
+    scrollElement?: ScrollElementOption | React.RefObject<HTMLElement | null>
+    // 在上方插入或删除item时，保持视口中的item在屏幕中的位置不变
+    scrollAnchor?: boolean
+    // 响应式断点: 容器宽度 -> { columns, gap, padding, itemMinWidth }，设置的参数会覆盖对应的属性
+    breakpoints?: Breakpoints
+    // SSR: 容器还没有测量时使用的容器宽度(不包含内边距)，服务端渲染和客户端激活时按这个宽度计算布局
+    ssrWidth?: number
+    // SSR: 容器还没有测量时使用的列数，不传时根据 ssrWidth 计算；没有传入 ssrWidth 时按每列的最小宽度(itemMinWidth)估计容器宽度
+    initialColumns?: number
+    // SSR: 视口还没有测量时渲染的item数量
+    ssrItemCount?: number
+    // 要恢复的布局快照(getSnapshot 导出)，第一次计算布局时直接使用其中的位置，并恢复滚动位置
+    restoreState?: LayoutSnapshot | null
+    // 布局变化时的过渡动画: true 使用默认参数，或者 { duration, easing, enter, leave }，用户设置了减少动画时不生效
+    transition?: boolean | TransitionOption
+    // item在视口中的比例达到多少时触发 onItemVisible，(0, 1]，比视口还大的item按视口大小计算
+    visibilityThreshold?: number
+    // item保持可见多长时间(毫秒)后才触发 onItemVisible
+    visibilityDwell?: number
+    // 距离底部多少时触发加载更多
+    bottomDistance?: number
+    // 是否正在加载
+    loading?: boolean
+    // 是否已经没有更多数据
+    finished?: boolean
+    // 是否加载失败
+    error?: boolean
+    // 滚动到底部(距离底部不超过bottomDistance)
+    onReachBottom?: () => void
+    // 需要加载更多数据：滚动到底部，并且不处于 loading / finished / error 状态
+    onLoadMore?: () => void
+    // 可见范围变化：视口中的item、每列视口中的第一个 / 最后一个item、渲染的item
+    onRangeChange?: (range: VisibleRange) => void
+    // item在视口中的比例达到 visibilityThreshold，并保持了 visibilityDwell 毫秒
+    onItemVisible?: (event: ItemVisibility<T>) => void
+    // 触发过 onItemVisible 的item不再满足条件
+    onItemHidden?: (event: ItemVisibility<T>) => void
+    // 底部状态的渲染方法
+    renderLoading?: () => React.ReactNode
+    renderFinished?: () => React.ReactNode
+    renderError?: (retry: () => void) => React.ReactNode
+}
+
+export interface VirtualWaterfallHandle<T = any> {
+    withItemSpaces: (cb: (spaces: readonly VirtualWaterfallItemSpace<T>[]) => void) => void
+    // 滚动到指定的item，item渲染完成后返回它的包裹元素
+    scrollToIndex: (index: number, option?: ScrollToOption) => Promise<HTMLElement | undefined>
+    scrollToKey: (key: unknown, option?: ScrollToOption) => Promise<HTMLElement | undefined>
+    scrollToItem: (item: T, option?: ScrollToOption) => Promise<HTMLElement | undefined>
+    // 滚动到指定索引的分组的标题
+    scrollToGroup: (groupIndex: number, option?: ScrollToOption) => Promise<HTMLElement | undefined>
+    // 聚焦指定索引的item，不在渲染范围内时先滚动过去
+    focusIndex: (index: number) => Promise<void>
+    // item的内容变化后，重新计算它的高度，并从它所在的位置开始重新布局
+    invalidate: (keyOrIndex: unknown) => void
+    // 导出当前的布局快照，可以用 JSON 序列化后保存，重新挂载时通过 restoreState 恢复
+    getSnapshot: () => LayoutSnapshot | undefined
+    // 恢复布局快照，参数和快照不一致时重新计算布局，只恢复滚动位置
+    restoreSnapshot: (snapshot: LayoutSnapshot) => void
+}
+
+function isNumber(value: any): value is number {
+    return Object.prototype.toString.call(value) === '[object Number]'
+}
+
+// 服务端渲染时不执行 useLayoutEffect，使用 useEffect 避免警告
+const useIsomorphicLayoutEffect = typeof window === 'undefined' ? useEffect : useLayoutEffect
+
+// 默认的item高度
+function defaultItemHeight() {
+    return 250
+}
+
+// 默认使用item的 width / height 作为宽高比
+function defaultItemRatio(item: { width?: number; height?: number } | null) {
+    return item?.width && item?.height ? item.width / item.height : 1
+}
+
+type WaterfallLayout = LayoutState | JustifiedLayoutState
+
+// 按布局模式计算布局，上一次的结果和当前的布局模式相同时才作为缓存
+function updateLayout(
+    prev: WaterfallLayout | null,
+    layoutOption: LayoutOption,
+    justifiedOption: JustifiedLayoutOption | null,
+    invalid?: number[]
+): WaterfallLayout {
+    if (justifiedOption) {
+        return computeJustifiedLayout(justifiedOption, prev && isJustifiedLayout(prev) ? prev : undefined, invalid)
+    }
+    return computeLayout(layoutOption, prev && !isJustifiedLayout(prev) ? prev : undefined, invalid)
+}
+
+// 容器大小已经确定，可以计算布局
+function isLayoutReady(layoutOption: LayoutOption, justifiedOption: JustifiedLayoutOption | null) {
+    return justifiedOption ? justifiedOption.containerWidth > 0 : layoutOption.columnCount > 0
+}
+
+// 按快照恢复布局
+function restoreLayoutState(
+    snapshot: LayoutSnapshot,
+    layoutOption: LayoutOption,
+    justifiedOption: JustifiedLayoutOption | null,
+    getItemKey: NonNullable<LayoutOption['getItemKey']>
+): WaterfallLayout {
+    if (justifiedOption) {
+        return restoreJustifiedLayout(justifiedOption, snapshot, getItemKey)
+    }
+    return restoreLayout(layoutOption, snapshot, getItemKey)
+}
+
+// 用户是否设置了减少动画，设置变化时重新渲染
+function usePrefersReducedMotion() {
+    return useSyncExternalStore(
+        callback => {
+            const query = window.matchMedia('(prefers-reduced-motion: reduce)')
+            query.addEventListener('change', callback)
+            return () => query.removeEventListener('change', callback)
+        },
+        prefersReducedMotion,
+        () => false
+    )
+}
+
+// 横向滚动时，布局中的 top / height 对应 x 轴，left / width 对应 y 轴
+// 测量高度时不设置高度，让item按内容撑开
+function getItemStyle(data: VirtualWaterfallItemSpace, horizontal: boolean, measuring: boolean): React.CSSProperties {
+    if (measuring && !horizontal) {
+        return {
+            position: 'absolute',
+            width: `${data.width}px`,
+            transform: `translate(${data.left}px, ${data.top}px)`
+        }
+    }
+    const width = horizontal ? data.height : data.width
+    const height = horizontal ? data.width : data.height
+    const x = horizontal ? data.top : data.left
+    const y = horizontal ? data.left : data.top
+    return {
+        position: 'absolute',
+        contentVisibility: 'auto',
+        width: `${width}px`,
+        height: `${height}px`,
+        transform: `translate(${x}px, ${y}px)`,
+        containIntrinsicSize: `${width}px ${height}px`
+    }
+}
+
+function useElementSize(targetRef: React.RefObject<HTMLElement | null>, box: 'content-box' | 'border-box' = 'content-box') {
+    const [width, setWidth] = useState(0)
+    const [height, setHeight] = useState(0)
+
+    useEffect(() => {
+        const el = targetRef.current
+        if (!el) return
+
+        const resizeObserver = new ResizeObserver(entries => {
+            for (const entry of entries) {
+                const size = box === 'border-box' && entry.borderBoxSize && entry.borderBoxSize[0]
+                if (size) {
+                    setWidth(size.inlineSize)
+                    setHeight(size.blockSize)
+                } else {
+                    setWidth(entry.contentRect.width)
+                    setHeight(entry.contentRect.height)
+                }
+            }
+        })
+
+        resizeObserver.observe(el)
+
+        // 初始化一次
+        const rect = el.getBoundingClientRect()
+        if (rect.width === 0) {
+            const styleWidth = window.getComputedStyle(el).width
+            const w = Number.parseInt(styleWidth)
+            if (!Number.isNaN(w)) setWidth(w)
+        } else {
+            setWidth(rect.width)
+        }
+
+        return () => {
+            resizeObserver.disconnect()
+        }
+    }, [targetRef, box])
+
+    return { width, height } as const
+}
+
+// 始终调用最新的回调，避免回调变化导致副作用重复执行
+function useLatest<T>(value: T) {
+    const ref = useRef(value)
+    useEffect(() => {
+        ref.current = value
+    })
+    return ref
+}
+
+// 等待指定的item渲染完成，返回它的包裹元素
+function waitForRender(content: HTMLElement, index: number, timeout = 3000) {
+    const start = performance.now()
+    return new Promise<HTMLElement | undefined>(resolve => {
+        const check = () => {
+            const el = content.querySelector<HTMLElement>(`:scope > [data-index="${index}"]`)
+            // 平滑滚动可能被用户打断，避免一直等待
+            if (el || performance.now() - start > timeout) {
+                resolve(el ?? undefined)
+                return
+            }
+            requestAnimationFrame(check)
+        }
+        check()
+    })
+}
+
+// 事件目标所在的item包裹元素
+function findItemElement(content: HTMLElement | null, target: EventTarget | null): HTMLElement | undefined {
+    let element = target as HTMLElement | null
+    while (element && element.parentElement !== content) {
+        element = element.parentElement
+    }
+    return element?.dataset.index === undefined ? undefined : element
+}
+
+// 方向键对应的布局方向，横向滚动时列变成了行
+function getNavigationDirection(key: string, horizontal: boolean): NavigationDirection | undefined {
+    const keys: Record<string, NavigationDirection> = horizontal
+        ? { ArrowLeft: 'up', ArrowRight: 'down', ArrowUp: 'left', ArrowDown: 'right' }
+        : { ArrowUp: 'up', ArrowDown: 'down', ArrowLeft: 'left', ArrowRight: 'right' }
+    return keys[key]
+}
+
+function isRefObject(value: unknown): value is React.RefObject<HTMLElement | null> {
+    return typeof value === 'object' && value !== null && 'current' in value
+}
+
+function useViewport(
+    contentRef: React.RefObject<HTMLElement | null>,
+    scrollElement: VirtualWaterfallProps['scrollElement'],
+    itemSpaces: SpaceStore,
+    direction: ScrollDirection
+) {
+    // 沿滚动方向 start: 视口起点相对于容器内容区域起点的距离，size: 视口大小
+    const [viewport, setViewport] = useState({ start: 0, size: 0 })
+    const scrollTargetRef = useRef<ScrollElement | undefined>(undefined)
+    const scheduleUpdateRef = useRef<(() => void) | null>(null)
+    const updateRef = useRef<(() => void) | null>(null)
+
+    useEffect(() => {
+        const content = contentRef.current
+        const target = resolveScrollElement(isRefObject(scrollElement) ? scrollElement.current : scrollElement, content, direction)
+        scrollTargetRef.current = target
+        if (!content || !target) return
+
+        let rafId: number | null = null
+
+        const update = () => {
+            rafId = null
+            const start = getViewStart(content, target, direction)
+            const size = getViewportSize(target, direction)
+            setViewport(prev => (prev.start === start && prev.size === size ? prev : { start, size }))
+        }
+
+        // 使用 requestAnimationFrame 来优化性能和确保及时更新
+        const scheduleUpdate = () => {
+            if (rafId !== null) {
+                cancelAnimationFrame(rafId)
+            }
+            rafId = requestAnimationFrame(update)
+        }
+
+        scheduleUpdate()
+        scheduleUpdateRef.current = scheduleUpdate
+        updateRef.current = update
+
+        // 监听滚动容器的滚动事件
+        target.addEventListener('scroll', scheduleUpdate, { passive: true })
+        window.addEventListener('resize', scheduleUpdate)
+
+        // 滚动容器是元素时，它的高度可能独立于窗口变化
+        let resizeObserver: ResizeObserver | null = null
+        if (!isWindow(target)) {
+            resizeObserver = new ResizeObserver(scheduleUpdate)
+            resizeObserver.observe(target)
+        }
+
+        return () => {
+            if (rafId !== null) {
+                cancelAnimationFrame(rafId)
+            }
+            scheduleUpdateRef.current = null
+            updateRef.current = null
+            target.removeEventListener('scroll', scheduleUpdate)
+            window.removeEventListener('resize', scheduleUpdate)
+            resizeObserver?.disconnect()
+        }
+    }, [contentRef, scrollElement, direction])
+
+    // 布局变化时，容器的位置可能发生变化
+    useEffect(() => {
+        scheduleUpdateRef.current?.()
+    }, [itemSpaces])
+
+    // 立即更新视口，例如组件自己调整了滚动位置之后
+    const refreshViewport = useCallback(() => {
+        updateRef.current?.()
+    }, [])
+
+    return { viewport, scrollTargetRef, refreshViewport } as const
+}
+
+const VirtualWaterfallInner = React.forwardRef<VirtualWaterfallHandle<any>, VirtualWaterfallProps<any>>(
+    (
+        {
+            mode = 'waterfall',
+            direction = 'vertical',
+            virtual = true,
+            rowKey = 'id',
+            enableCache = true,
+            layoutWorker = false,
+            gap: gapProp = 15,
+            padding: paddingProp = 15,
+            preloadScreenCount = [0, 0],
+            itemMinWidth: itemMinWidthProp = 220,
+            maxColumnCount = 10,
+            minColumnCount = 2,
+            items = EMPTY_ITEMS,
+            groups,
+            groupHeaderHeight = 48,
+            stickyHeader = false,
+            calcItemHeight = defaultItemHeight,
+            calcItemSpan,
+            placement = 'shortest',
+            rowHeight = 200,
+            calcItemRatio = defaultItemRatio,
+            autoMeasure = false,
+            image,
+            renderItem,
+            renderGroupHeader,
+            scrollElement,
+            scrollAnchor = false,
+            breakpoints,
+            ssrWidth = 0,
+            initialColumns = 0,
+            ssrItemCount = 20,
+            restoreState,
+            transition = false,
+            visibilityThreshold = 0.5,
+            visibilityDwell = 0,
+            bottomDistance = 0,
+            loading = false,
+            finished = false,
+            error = false,
+            onReachBottom,
+            onLoadMore,
+            onRangeChange,
+            onItemVisible,
+            onItemHidden,
+            renderLoading,
+            renderFinished,
+            renderError
+        },
+        ref
+    ) => {
+        const contentRef = useRef<HTMLDivElement | null>(null)
+        const footerRef = useRef<HTMLDivElement | null>(null)
+
+        const { width: contentWidth, height: contentHeight } = useElementSize(contentRef)
+        // 容器的整体大小(包含内边距)，用于匹配断点，不受断点中的padding影响
+        const { width: containerWidth, height: containerHeight } = useElementSize(contentRef, 'border-box')
+
+        // 分组模式中展开后的列表，每组的标题(分组对象本身)后面跟着这一组的item
+        const grouped = useMemo(() => (groups ? flattenGroups<any, WaterfallGroup>(groups) : undefined), [groups])
+        const grouping = !!grouped
+        // 参与布局的数据，分组模式中标题和item一起布局
+        const layoutItems = grouped ? grouped.items : items
+        // 计算方法通过 ref 读取最新的分组，分组变化时计算方法保持不变，之前的布局仍然可以作为缓存
+        const groupedRef = useLatest(grouped)
+        // 是分组的标题时返回分组的索引，否则返回 -1
+        const getHeaderIndex = useCallback((item: unknown) => (groupedRef.current ? getGroupHeaderIndex(groupedRef.current, item) : -1), [groupedRef])
+
+        // 是否使用等高行布局，分组只支持瀑布流
+        const justified = mode === 'justified' && !grouping
+
+        // 是否横向滚动，等高行布局只支持纵向滚动
+        const horizontal = direction === 'horizontal' && !justified
+        const scrollDirection: ScrollDirection = horizontal ? 'horizontal' : 'vertical'
+
+        const measured = contentWidth > 0
+
+        // 当前容器大小对应的断点参数，断点中设置的参数优先于对应的属性
+        const breakpoint = resolveBreakpoint(horizontal ? containerHeight : measured ? containerWidth : ssrWidth, breakpoints)
+        const gap = breakpoint.gap ?? gapProp
+        const padding = breakpoint.padding ?? paddingProp
+        const itemMinWidth = breakpoint.itemMinWidth ?? itemMinWidthProp
+
+        // 容器宽度还没有测量(SSR 以及客户端激活之前)时使用 ssrWidth，保证服务端和客户端第一次渲染的结果一致
+        // 只传入了 initialColumns 时，按每列的最小宽度估计
+        const layoutWidth = measured ? contentWidth : ssrWidth || !initialColumns ? ssrWidth : getMinContainerWidth(initialColumns, itemMinWidth, gap)
+        // 列所在方向(与滚动方向垂直)的容器大小：纵向滚动时为宽度，横向滚动时为高度
+        const crossSize = horizontal ? contentHeight : layoutWidth
+        const fixedColumnCount = !measured && !horizontal && initialColumns ? initialColumns : breakpoint.columns
+
+        const columnCount = useMemo(() => {
+            if (fixedColumnCount) {
+                return crossSize ? fixedColumnCount : 0
+            }
+            return getColumnCount(crossSize, { itemMinWidth, maxColumnCount, minColumnCount })
+        }, [crossSize, fixedColumnCount, itemMinWidth, maxColumnCount, minColumnCount])
+
+        // 每个item占据的宽度，横向滚动时为每行的高度
+        const itemWidth = useMemo(() => getItemWidth(crossSize, columnCount, gap), [crossSize, columnCount, gap])
+
+        const getItemKey = useCallback(
+            (item: any): unknown => {
+                const groupIndex = getHeaderIndex(item)
+                return groupIndex < 0 ? (item?.[rowKey] ?? item) : getGroupKey(item, groupIndex)
+            },
+            [rowKey, getHeaderIndex]
+        )
+
+        // 是否需要测量item的真实高度
+        // 等高行布局中item的高度由行高决定，不需要测量；横向滚动时item的宽度由calcItemHeight决定，暂不支持测量
+        const measuring = autoMeasure && !justified && !horizontal
+        // 测量得到的真实高度: key -> 高度，宽度变化后(列数变化时跨列item的宽度也会变化)重新测量
+        const measuredHeightsRef = useRef(new Map<unknown, number>())
+        useEffect(() => {
+            measuredHeightsRef.current.clear()
+        }, [itemWidth, columnCount])
+
+        // 图片模式中已经加载的图片的真实尺寸，只用于图片自己没有带尺寸的item
+        const [imageSizes] = useState<ImageSizeCache>(() => new Map())
+
+        // 图片模式按图片的宽高比计算高度，宽高比未知时使用 calcItemHeight / calcItemRatio 的预估值
+        // 分组模式中标题使用 groupHeaderHeight，并且占满整行
+        const itemHeightCalculator = useMemo(() => {
+            const calc = image ? createImageItemHeight(image, imageSizes, scrollDirection, calcItemHeight) : calcItemHeight
+            return grouping ? createGroupItemHeight(getHeaderIndex, groupHeaderHeight, calc) : calc
+        }, [image, imageSizes, scrollDirection, calcItemHeight, grouping, getHeaderIndex, groupHeaderHeight])
+        const itemSpanCalculator = useMemo(
+            () => (grouping ? createGroupItemSpan(getHeaderIndex, calcItemSpan) : calcItemSpan),
+            [grouping, getHeaderIndex, calcItemSpan]
+        )
+        const itemRatioCalculator = useMemo(
+            () => (image ? createImageItemRatio(image, imageSizes, calcItemRatio) : calcItemRatio),
+            [image, imageSizes, calcItemRatio]
+        )
+
+        // 已测量的item使用真实高度，否则使用预估高度
+        const calcHeight = useMemo<LayoutOption['calcItemHeight']>(() => {
+            if (!measuring) return itemHeightCalculator
+            return (item, width) => measuredHeightsRef.current.get(getItemKey(item)) ?? itemHeightCalculator(item, width)
+        }, [measuring, itemHeightCalculator, getItemKey])
+
+        const layoutOption = useMemo<LayoutOption>(
+            () => ({
+                items: layoutItems,
+                columnCount,
+                itemWidth,
+                gap,
+                calcItemHeight: calcHeight,
+                calcItemSpan: itemSpanCalculator,
+                placement,
+                getItemKey
+            }),
+            [layoutItems, columnCount, itemWidth, gap, calcHeight, itemSpanCalculator, placement, getItemKey]
+        )
+
+        const justifiedOption = useMemo<JustifiedLayoutOption | null>(
+            () => (justified ? { items, containerWidth: layoutWidth, rowHeight, gap, calcItemRatio: itemRatioCalculator } : null),
+            [justified, items, layoutWidth, rowHeight, gap, itemRatioCalculator]
+        )
+
+        // 传入了 ssrWidth / initialColumns 时，第一次渲染(包括服务端渲染)就计算布局
+        const [layout, setLayout] = useState<WaterfallLayout | null>(() =>
+            isLayoutReady(layoutOption, justifiedOption) ? updateLayout(null, layoutOption, justifiedOption) : null
+        )
+        const itemSpaces = layout ? layout.spaces : EMPTY_SPACES
+        // 最新的布局，在 worker 中计算时作为缓存传入
+        const layoutRef = useLatest(layout)
+
+        const { viewport, scrollTargetRef, refreshViewport } = useViewport(contentRef, scrollElement, itemSpaces, scrollDirection)
+
+        // 是否在 worker 中计算布局：容器已经测量(SSR 激活时需要和服务端同步计算出相同的布局)，不需要测量item的高度，并且使用内置的放置策略
+        const workerEnabled = layoutWorker && !justified && !measuring && measured && typeof placement === 'string'
+        // 在 worker 中计算布局的客户端，结果返回之前继续展示之前的布局
+        const layoutWorkerRef = useRef<LayoutWorkerClient | null>(null)
+        // 创建了新的客户端后重新计算布局，改为在 worker 中计算
+        const [layoutWorkerVersion, setLayoutWorkerVersion] = useState(0)
+
+        // 开启时按需加载并创建 worker，加载完成之前在主线程中计算；关闭或者卸载时结束 worker，丢弃还没有返回的结果
+        useEffect(() => {
+            if (!workerEnabled || !isLayoutWorkerSupported()) return
+            let client: LayoutWorkerClient | null = null
+            let cancelled = false
+            import('../core/worker-client')
+                .then(({ createLayoutWorkerClient }) => {
+                    if (cancelled) return
+                    client = createLayoutWorkerClient(setLayout)
+                    layoutWorkerRef.current = client
+                    setLayoutWorkerVersion(version => version + 1)
+                })
+                // 加载失败时一直在主线程中计算
+                .catch(() => {})
+            return () => {
+                cancelled = true
+                client?.terminate()
+                layoutWorkerRef.current = null
+            }
+        }, [workerEnabled])
+
+        // 等待恢复的布局快照，容器和数据都准备好之后使用
+        const pendingRestoreRef = useRef<LayoutSnapshot | null>(null)
+        // 已经处理过的 restoreState
+        const receivedRestoreRef = useRef<LayoutSnapshot | null>(null)
+        // 布局恢复后，等待恢复滚动位置的快照
+        const pendingScrollRef = useRef<LayoutSnapshot | null>(null)
+        // 调用 restoreSnapshot 后重新计算布局
+        const [restoreVersion, setRestoreVersion] = useState(0)
+
+        useEffect(() => {
+            if (restoreState && restoreState !== receivedRestoreRef.current) {
+                receivedRestoreRef.current = restoreState
+                pendingRestoreRef.current = restoreState
+            }
+            const snapshot = pendingRestoreRef.current
+            if (snapshot && isLayoutReady(layoutOption, justifiedOption) && layoutOption.items.length) {
+                pendingRestoreRef.current = null
+                pendingScrollRef.current = snapshot
+                layoutWorkerRef.current?.invalidate()
+                // 快照中的高度可能是测量得到的，之后重新计算时继续使用
+                if (
+                    measuring &&
+                    !justifiedOption &&
+                    snapshot.columnCount === layoutOption.columnCount &&
+                    snapshot.width === layoutOption.itemWidth
+                ) {
+                    snapshot.spaces.forEach(space => measuredHeightsRef.current.set(space.key, space.height))
+                }
+                setLayout(restoreLayoutState(snapshot, layoutOption, justifiedOption, getItemKey))
+                return
+            }
+            if (layoutWorkerRef.current && !justifiedOption) {
+                // 启用缓存时传入当前的布局，已有的item保持在原来的列
+                const prev = layoutRef.current
+                layoutWorkerRef.current.request(layoutOption, enableCache && prev && !isJustifiedLayout(prev) ? prev : undefined)
+                return
+            }
+            // 启用缓存：只从第一个发生变化的item开始计算，已有的item尽量保持在原来的列
+            setLayout(prev => updateLayout(enableCache ? prev : null, layoutOption, justifiedOption))
+        }, [layoutOption, justifiedOption, enableCache, restoreState, restoreVersion, getItemKey, measuring, workerEnabled, layoutWorkerVersion, layoutRef])
+
+        // 屏幕上正在展示的布局
+        const renderedLayoutRef = useRef<WaterfallLayout | null>(null)
+        // 下一次布局变化时保持锚点，例如测量得到真实高度之后
+        const anchorNextLayoutRef = useRef(false)
+
+        // 布局变化并渲染后，让之前视口中的锚点元素保持在屏幕中的位置不变
+        // 例如在顶部插入数据、上方的item高度变化时，避免视口跳动
+        useIsomorphicLayoutEffect(() => {
+            const previous = renderedLayoutRef.current
+            if (previous === layout) return
+            renderedLayoutRef.current = layout
+            const anchorable = scrollAnchor || anchorNextLayoutRef.current
+            anchorNextLayoutRef.current = false
+
+            const content = contentRef.current
+            const target = scrollTargetRef.current
+
+            // 恢复快照中的滚动位置：优先让锚点item回到原来的位置，找不到锚点时使用快照中的滚动位置
+            const snapshot = pendingScrollRef.current
+            if (snapshot && layout && content && target) {
+                pendingScrollRef.current = null
+                const saved = findSnapshotAnchor(layout.spaces, snapshot, getItemKey)
+                if (saved) {
+                    const start = getViewStart(content, target, scrollDirection)
+                    scrollByDelta(target, saved.top - snapshot.anchorOffset - start, scrollDirection)
+                } else {
+                    scrollToPosition(target, snapshot.scrollOffset, scrollDirection)
+                }
+                refreshViewport()
+                return
+            }
+
+            if (!anchorable || !previous || !layout || !content || !target) return
+
+            // 容器的位置没有变化，此时的视口位置就是布局变化之前的视口位置
+            const anchor = findAnchorSpace(previous.spaces, previous.columns, getViewStart(content, target, scrollDirection))
+            if (!anchor) return
+            const key = layoutOption.getItemKey?.(anchor.item, anchor.index)
+            const current = layout.spaces.get(findSpaceIndex(layout.spaces, (item, index) => layoutOption.getItemKey?.(item, index) === key))
+            const delta = current ? current.top - anchor.top : 0
+            if (delta) {
+                scrollByDelta(target, delta, scrollDirection)
+                // 立即更新视口，让渲染区域(包括预加载屏)跟随新的滚动位置
+                refreshViewport()
+            }
+        }, [layout, layoutOption, getItemKey, scrollAnchor, scrollDirection, scrollTargetRef, refreshViewport])
+
+        // 当前可以通过 Tab 键聚焦的item索引(roving tabindex)，方向键在item之间移动焦点
+        const [activeIndex, setActiveIndex] = useState(0)
+        // 焦点是否在组件内
+        const [focusWithin, setFocusWithin] = useState(false)
+
+        // 吸顶的分组标题：视口顶部所在的分组的标题，视口还没有测量时不吸顶
+        const stickyGroupHeader = useMemo(() => {
+            if (!stickyHeader || !grouped || !layout || !viewport.size) return undefined
+            const sticky = getStickyHeader(layout.spaces, grouped.headers, viewport.start, getContainerHeight(layout.columnsTop))
+            // 布局还没有按新的分组更新(例如在 worker 中计算)时，索引对应的可能不是标题
+            return sticky && getGroupHeaderIndex(grouped, layout.spaces.item(sticky.index)) >= 0 ? sticky : undefined
+        }, [stickyHeader, grouped, layout, viewport])
+
+        const itemRenderList = useMemo(() => {
+            if (!itemSpaces.length) return [] as VirtualWaterfallItemSpace[]
+            if (!virtual) return itemSpaces.toArray()
+            // 视口还没有测量(SSR 以及客户端激活之前)，渲染前面的item，客户端挂载后再按视口过滤
+            if (!viewport.size) {
+                // 只读取前面的item，不把整个布局转换成对象
+                const count = Math.min(ssrItemCount, itemSpaces.length)
+                const list: VirtualWaterfallItemSpace[] = []
+                for (let i = 0; i < count; i++) {
+                    list.push(itemSpaces.get(i)!)
+                }
+                return list
+            }
+
+            // 可见区域的范围（相对于容器内容区域的顶部），加上预加载区域
+            const [minLimit, maxLimit] = getVisibleLimits(viewport.start, viewport.size, preloadScreenCount)
+
+            let result = getVisibleSpacesInColumns(itemSpaces, layout ? layout.columns : [], minLimit, maxLimit)
+
+            // 焦点所在的item滚出可见范围后继续渲染，避免丢失焦点
+            const active = itemSpaces.get(activeIndex)
+            if (focusWithin && active && !result.some(space => space.index === active.index)) {
+                result = [...result, active].sort((a, b) => a.index - b.index)
+            }
+            // 吸顶的标题滚出渲染范围(例如分组很长)后继续渲染
+            const sticky = stickyGroupHeader && itemSpaces.get(stickyGroupHeader.index)
+            if (sticky && !result.some(space => space.index === sticky.index)) {
+                result = [...result, sticky].sort((a, b) => a.index - b.index)
+            }
+
+            return result
+        }, [layout, itemSpaces, virtual, ssrItemCount, preloadScreenCount, viewport, activeIndex, focusWithin, stickyGroupHeader])
+
+        // 上一次触发 onRangeChange 时的可见范围
+        const visibleRangeRef = useRef<VisibleRange | undefined>(undefined)
+        const onRangeChangeRef = useLatest(onRangeChange)
+        const visibilityRef = useLatest({ visibilityThreshold, visibilityDwell, getItemKey, onItemVisible, onItemHidden })
+
+        // 曝光追踪：根据布局中的位置计算，参数通过 getter 读取，保持最新
+        const [visibilityTracker] = useState(() =>
+            createVisibilityTracker<any>({
+                get threshold() {
+                    return visibilityRef.current.visibilityThreshold
+                },
+                get dwell() {
+                    return visibilityRef.current.visibilityDwell
+                },
+                getItemKey: item => visibilityRef.current.getItemKey(item),
+                onVisible: event => visibilityRef.current.onItemVisible?.(event),
+                onHidden: event => visibilityRef.current.onItemHidden?.(event)
+            })
+        )
+
+        useEffect(() => () => visibilityTracker.disconnect(), [visibilityTracker])
+
+        // 渲染的item或者视口变化后，重新计算可见范围
+        useEffect(() => {
+            // 视口还没有测量
+            if (!viewport.size) return
+            const range = getVisibleRange(itemSpaces, layout ? layout.columns : [], itemRenderList, viewport.start, viewport.size)
+            if (!isSameRange(range, visibleRangeRef.current)) {
+                visibleRangeRef.current = range
+                onRangeChangeRef.current?.(range)
+            }
+            // 分组的标题不触发曝光事件
+            visibilityTracker.update(
+                range.visible.filter(index => getHeaderIndex(itemSpaces.item(index)) < 0).map(index => itemSpaces.get(index)!),
+                viewport.start,
+                viewport.size
+            )
+        }, [layout, itemSpaces, itemRenderList, viewport, visibilityTracker, onRangeChangeRef, getHeaderIndex])
+
+        // 过渡动画参数，undefined 表示不使用动画
+        const reducedMotion = usePrefersReducedMotion()
+        const transitionOption = useMemo(() => resolveTransition(transition, reducedMotion), [transition, reducedMotion])
+        const moveTransition = transitionOption ? getMoveTransition(transitionOption) : undefined
+
+        // 正在播放离开动画的item：已经从数据中删除，动画结束后移除
+        const [leavingSpaces, setLeavingSpaces] = useState<VirtualWaterfallItemSpace[]>([])
+        // 上一次渲染的item，以及数据中所有item的key(只在开启动画时计算)，用于区分数据变化和滚动引起的进入 / 离开
+        const trackedRef = useRef<{
+            list: VirtualWaterfallItemSpace[]
+            spaces: SpaceStore | null
+            keys: Set<unknown> | null
+        }>({ list: itemRenderList, spaces: null, keys: null })
+
+        // 渲染的item变化后，找出数据中新增和删除的item：新增的item播放进入动画，删除的item在绘制之前加入离开的列表
+        useIsomorphicLayoutEffect(() => {
+            const tracked = trackedRef.current
+            if (tracked.list === itemRenderList) return
+            if (!transitionOption) {
+                trackedRef.current = { list: itemRenderList, spaces: null, keys: null }
+                setLeavingSpaces(prev => (prev.length ? [] : prev))
+                return
+            }
+            if (tracked.spaces === itemSpaces) {
+                // 只是滚动引起的变化
+                trackedRef.current = { ...tracked, list: itemRenderList }
+                return
+            }
+            const keys = new Set<unknown>()
+            for (let i = 0; i < itemSpaces.length; i++) {
+                keys.add(getItemKey(itemSpaces.item(i)))
+            }
+            trackedRef.current = { list: itemRenderList, spaces: itemSpaces, keys }
+            const previousKeys = tracked.keys
+            if (!previousKeys) return
+            if (transitionOption.leave) {
+                const removed = tracked.list.filter(space => !keys.has(getItemKey(space.item)))
+                if (removed.length) setLeavingSpaces(prev => [...prev, ...removed])
+            }
+            const content = contentRef.current
+            if (transitionOption.enter && content) {
+                for (const space of itemRenderList) {
+                    if (previousKeys.has(getItemKey(space.item))) continue
+                    const element = content.querySelector<HTMLElement>(`:scope > [data-index="${space.index}"]`)
+                    if (element) animateEnter(element, transitionOption)
+                }
+            }
+        }, [itemRenderList, itemSpaces, transitionOption, getItemKey])
+
+        // 已经开始播放离开动画的元素
+        const leavingElementsRef = useRef(new WeakSet<HTMLElement>())
+
+        // 离开的元素渲染后播放动画，结束后移除
+        const onLeavingRef = (element: HTMLElement | null, space: VirtualWaterfallItemSpace) => {
+            if (!element || !transitionOption || leavingElementsRef.current.has(element)) return
+            leavingElementsRef.current.add(element)
+            animateLeave(element, transitionOption, () => {
+                setLeavingSpaces(prev => prev.filter(leaving => leaving !== space))
+            })
+        }
+
+        // 需要加载图片的范围：视口加上预加载屏，视口还没有测量(SSR 以及客户端激活之前)时不加载
+        const imageLimits = viewport.size ? getVisibleLimits(viewport.start, viewport.size, preloadScreenCount) : undefined
+        // 已经加载完成(或者加载失败)的图片，之后不再受加载范围限制，避免滚动时重新加载
+        const [loadedImages] = useState(() => new Set<string>())
+
+        // 图片自己没有带尺寸时，加载完成后按真实尺寸重新布局这个item，测量模式中由测量得到真实高度
+        const onImageLoad = (element: HTMLImageElement, data: VirtualWaterfallItemSpace) => {
+            const itemImage = image?.(data.item)
+            if (!itemImage) return
+            loadedImages.add(itemImage.src)
+            if (!recordImageSize(itemImage, element, imageSizes) || measuring) return
+            const current = renderedLayoutRef.current
+            if (!current || current.spaces.item(data.index) !== data.item) return
+            // 在主线程中更新了布局，worker 还没有返回的结果已经过期
+            layoutWorkerRef.current?.invalidate()
+            // 重新布局导致的位置变化需要保持视口稳定
+            anchorNextLayoutRef.current = true
+            setLayout(prev =>
+                prev && prev.spaces.item(data.index) === data.item ? updateLayout(prev, layoutOption, justifiedOption, [data.index]) : prev
+            )
+        }
+
+        // 不在加载范围内的图片不设置地址，只占据按宽高比预留的位置
+        const renderImage = (data: VirtualWaterfallItemSpace) => {
+            const itemImage = image?.(data.item)
+            if (!itemImage) return null
+            const load = loadedImages.has(itemImage.src) || isImageInRange(data, imageLimits)
+            return (
+                <img
+                    src={load ? itemImage.src : undefined}
+                    alt={itemImage.alt ?? ''}
+                    decoding="async"
+                    style={getImageStyle(getImageRatio(itemImage, imageSizes), !measuring, getImageExtraHeight(itemImage))}
+                    onLoad={event => onImageLoad(event.currentTarget, data)}
+                    onError={() => loadedImages.add(itemImage.src)}
+                />
+            )
+        }
+
+        // 分组的标题使用 renderGroupHeader，item渲染图片和内容
+        const renderContent = (data: VirtualWaterfallItemSpace) => {
+            const groupIndex = grouped ? getGroupHeaderIndex(grouped, data.item) : -1
+            if (groupIndex >= 0) return renderGroupHeader?.(data.item, groupIndex)
+            return (
+                <>
+                    {renderImage(data)}
+                    {renderItem(data.item, data.index)}
+                </>
+            )
+        }
+
+        // 当前item没有渲染时，让第一个渲染的item可以聚焦，保证可以通过 Tab 键进入列表
+        const tabbableIndex = itemRenderList.some(space => space.index === activeIndex) ? activeIndex : itemRenderList[0]?.index
+
+        // 滚动到指定的item，item渲染完成后返回它的包裹元素
+        const scrollToIndex = useCallback(
+            (index: number, option: ScrollToOption = {}) => {
+                const space = itemSpaces.get(index)
+                const content = contentRef.current
+                const target = scrollTargetRef.current
+                if (!space || !content || !target) {
+                    return Promise.resolve(undefined)
+                }
+                const position = getScrollTopToSpace(
+                    space,
+                    getViewStart(content, target, scrollDirection),
+                    getViewportSize(target, scrollDirection),
+                    getScrollPosition(target, scrollDirection),
+                    option
+                )
+                scrollToPosition(target, position, scrollDirection, option.behavior)
+                return waitForRender(content, index)
+            },
+            [itemSpaces, scrollDirection, scrollTargetRef]
+        )
+
+        // 聚焦指定索引的item，不在渲染范围内时先滚动过去
+        const focusIndex = useCallback(
+            async (index: number) => {
+                if (!itemSpaces.get(index)) return
+                setActiveIndex(index)
+                const element = await scrollToIndex(index, { align: 'nearest' })
+                element?.focus({ preventScroll: true })
+            },
+            [itemSpaces, scrollToIndex]
+        )
+
+        const onFocus = (event: React.FocusEvent<HTMLDivElement>) => {
+            setFocusWithin(true)
+            const element = findItemElement(contentRef.current, event.target)
+            if (element) setActiveIndex(Number(element.dataset.index))
+        }
+
+        const onBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+            if (!contentRef.current?.contains(event.relatedTarget as Node | null)) setFocusWithin(false)
+        }
+
+        const onKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+            const element = findItemElement(contentRef.current, event.target)
+            // 只处理item本身获得焦点时的按键，item内部的元素(例如输入框)自己处理
+            if (!element || element !== event.target || !layout) return
+            const index = Number(element.dataset.index)
+            let next: number
+            if (event.key === 'Home') {
+                next = 0
+            } else if (event.key === 'End') {
+                next = layout.spaces.length - 1
+            } else if (event.key === 'PageUp' || event.key === 'PageDown') {
+                // feed 模式: PageUp / PageDown 移动到上一个 / 下一个item
+                next = event.key === 'PageUp' ? index - 1 : index + 1
+            } else {
+                const direction = getNavigationDirection(event.key, horizontal)
+                if (!direction) return
+                next = isJustifiedLayout(layout)
+                    ? getAdjacentRowIndex(layout.spaces, index, direction)
+                    : getAdjacentIndex(layout.spaces, layout.columns, index, direction)
+            }
+            event.preventDefault()
+            focusIndex(next)
+        }
+
+        // 应用测量结果：只重排受影响的列，并保持视口中的元素位置不变
+        const onMeasure = useCallback(
+            (measured: MeasuredHeight[]) => {
+                // 元素上的索引对应屏幕上正在展示的布局
+                const current = renderedLayoutRef.current
+                if (!current || isJustifiedLayout(current)) return
+                const heights = new Map<number, number>()
+                for (const { element, height } of measured) {
+                    const index = Number(element.dataset.index)
+                    const space = current.spaces.get(index)
+                    if (!space || Math.abs(space.height - height) < 0.5) continue
+                    measuredHeightsRef.current.set(getItemKey(space.item), height)
+                    heights.set(index, height)
+                }
+                if (!heights.size) return
+                // 测量导致的位置变化总是需要保持视口稳定
+                anchorNextLayoutRef.current = true
+                setLayout(prev => {
+                    if (!prev || isJustifiedLayout(prev)) return prev
+                    if (prev === current) return applyItemHeights(prev, heights)
+                    // 布局已经更新但还没有渲染，只应用仍然对应同一个item的高度
+                    const remaining = new Map<number, number>()
+                    heights.forEach((height, index) => {
+                        if (prev.spaces.item(index) === current.spaces.item(index)) remaining.set(index, height)
+                    })
+                    return remaining.size ? applyItemHeights(prev, remaining) : prev
+                })
+            },
+            [getItemKey]
+        )
+
+        const onMeasureRef = useLatest(onMeasure)
+        const heightObserverRef = useRef<HeightObserver | null>(null)
+
+        useIsomorphicLayoutEffect(() => {
+            if (!isMeasureSupported()) return
+            const observer = createHeightObserver(measured => onMeasureRef.current(measured))
+            heightObserverRef.current = observer
+            return () => {
+                observer.disconnect()
+                heightObserverRef.current = null
+            }
+        }, [onMeasureRef])
+
+        // 渲染的元素变化后，同步需要观察的元素
+        useIsomorphicLayoutEffect(() => {
+            const content = contentRef.current
+            if (!heightObserverRef.current || !content) return
+            heightObserverRef.current.sync(measuring ? content.querySelectorAll(':scope > [data-index]') : [])
+        }, [itemRenderList, measuring])
+
+        React.useImperativeHandle(ref, () => {
+            // 根据rowKey查找item的索引
+            const findIndexByKey = (key: unknown) => findSpaceIndex(itemSpaces, item => item?.[rowKey] === key)
+
+            return {
+                withItemSpaces: cb => {
+                    cb(itemSpaces.toArray())
+                },
+                scrollToIndex,
+                focusIndex,
+                scrollToKey: (key, option) => scrollToIndex(findIndexByKey(key), option),
+                scrollToItem: (item, option) =>
+                    scrollToIndex(
+                        findSpaceIndex(itemSpaces, current => current === item),
+                        option
+                    ),
+                scrollToGroup: (groupIndex, option) => scrollToIndex(grouped?.headers[groupIndex] ?? -1, option),
+                invalidate: keyOrIndex => {
+                    // 优先按rowKey查找，找不到时作为索引
+                    let index = findIndexByKey(keyOrIndex)
+                    if (index < 0 && typeof keyOrIndex === 'number') {
+                        index = keyOrIndex
+                    }
+                    if (!itemSpaces.get(index)) return
+                    if (measuring) {
+                        measuredHeightsRef.current.delete(getItemKey(itemSpaces.item(index)))
+                        // 已经渲染的item直接测量，否则等渲染后再测量
+                        const element = contentRef.current?.querySelector<HTMLElement>(`:scope > [data-index="${index}"]`)
+                        if (element) {
+                            onMeasure([{ element, height: element.offsetHeight }])
+                            return
+                        }
+                    }
+                    layoutWorkerRef.current?.invalidate()
+                    setLayout(prev => prev && updateLayout(prev, layoutOption, justifiedOption, [index]))
+                },
+                getSnapshot: () => {
+                    const content = contentRef.current
+                    const target = scrollTargetRef.current
+                    if (!layout || !content || !target) return undefined
+                    return createLayoutSnapshot(layout, {
+                        getItemKey,
+                        viewStart: getViewStart(content, target, scrollDirection),
+                        scrollOffset: getScrollPosition(target, scrollDirection)
+                    })
+                },
+                restoreSnapshot: snapshot => {
+                    pendingRestoreRef.current = snapshot
+                    setRestoreVersion(version => version + 1)
+                }
+            }
+        }, [
+            layout,
+            itemSpaces,
+            grouped,
+            rowKey,
+            getItemKey,
+            scrollDirection,
+            scrollTargetRef,
+            scrollToIndex,
+            focusIndex,
+            layoutOption,
+            justifiedOption,
+            measuring,
+            onMeasure
+        ])
+
+        // 沿滚动方向: item占据的大小
+        const itemsSize = layout ? getContainerHeight(layout.columnsTop) : 0
+
+        // 是否滚动到底部，视口还没有初始化时不触发
+        const reachBottom = viewport.size > 0 && getBottomDistance(itemsSize, viewport.start, viewport.size) <= bottomDistance
+        // 是否可以加载更多
+        const canLoadMore = reachBottom && !loading && !finished && !error
+
+        const onReachBottomRef = useLatest(onReachBottom)
+        const onLoadMoreRef = useLatest(onLoadMore)
+
+        useEffect(() => {
+            if (reachBottom) onReachBottomRef.current?.()
+        }, [reachBottom, onReachBottomRef])
+
+        // 滚动到底部时加载更多，加载完成后如果内容仍然不够一屏，继续加载
+        useEffect(() => {
+            if (canLoadMore) onLoadMoreRef.current?.()
+        }, [canLoadMore, layoutItems.length, onLoadMoreRef])
+
+        const retry = useCallback(() => {
+            onLoadMore?.()
+        }, [onLoadMore])
+
+        // 底部状态
+        let footer: React.ReactNode = null
+        if (error && renderError) {
+            footer = renderError(retry)
+        } else if (loading && renderLoading) {
+            footer = renderLoading()
+        } else if (finished && renderFinished) {
+            footer = renderFinished()
+        }
+        const { width: footerWidth, height: footerHeight } = useElementSize(footerRef)
+
+        const paddingStyle = isNumber(padding) ? `${padding}px` : padding
+        const footerSize = footer ? (horizontal ? footerWidth : footerHeight) : 0
+
+        return (
+            <div
+                ref={contentRef}
+                style={{
+                    position: 'relative',
+                    willChange: horizontal ? 'width' : 'height',
+                    // 纵向滚动时撑开容器的高度，横向滚动时撑开容器的宽度
+                    [horizontal ? 'width' : 'height']: `${itemsSize + footerSize}px`,
+                    padding: paddingStyle,
+                    // 由组件自己保持锚点，避免和浏览器的滚动锚定重复调整
+                    overflowAnchor: scrollAnchor || measuring ? 'none' : undefined
+                }}
+                role="feed"
+                aria-busy={loading}
+                onKeyDown={onKeyDown}
+                onFocus={onFocus}
+                onBlur={onBlur}
+            >
+                {itemRenderList.map(data => {
+                    const groupIndex = grouped ? getGroupHeaderIndex(grouped, data.item) : -1
+                    const key =
+                        groupIndex >= 0
+                            ? getGroupKey(data.item, groupIndex)
+                            : ((rowKey && typeof data.item === 'object' ? data.item[rowKey as keyof typeof data.item] : undefined) ?? data.index)
+                    // 吸顶的标题跟随滚动位置移动，不使用过渡动画
+                    const style =
+                        stickyGroupHeader?.index === data.index
+                            ? { ...getItemStyle({ ...data, top: stickyGroupHeader.top }, horizontal, measuring), zIndex: 1 }
+                            : moveTransition
+                              ? { ...getItemStyle(data, horizontal, measuring), transition: moveTransition }
+                              : getItemStyle(data, horizontal, measuring)
+                    return (
+                        <div
+                            key={key as React.Key}
+                            style={style}
+                            data-index={data.index}
+                            role="article"
+                            tabIndex={data.index === tabbableIndex ? 0 : -1}
+                            aria-posinset={data.index + 1}
+                            aria-setsize={finished ? layoutItems.length : -1}
+                        >
+                            {renderContent(data)}
+                        </div>
+                    )
+                })}
+                {leavingSpaces.map(data => (
+                    // 离开的item停留在原来的位置，不响应鼠标事件
+                    <div
+                        key={`leaving-${String(getItemKey(data.item))}`}
+                        ref={element => onLeavingRef(element, data)}
+                        style={{ ...getItemStyle(data, horizontal, measuring), pointerEvents: 'none' }}
+                        aria-hidden="true"
+                    >
+                        {renderContent(data)}
+                    </div>
+                ))}
+                <div
+                    ref={footerRef}
+                    style={
+                        horizontal
+                            ? { position: 'absolute', height: `${contentHeight}px`, transform: `translateX(${itemsSize}px)` }
+                            : { position: 'absolute', width: `${layoutWidth}px`, transform: `translateY(${itemsSize}px)` }
+                    }
+                >
+                    {footer}
+                </div>
+            </div>
+        )
+    }
+)
+
+VirtualWaterfallInner.displayName = 'VirtualWaterfall'
+
+// forwardRef 会丢失泛型参数，恢复成泛型组件，item的类型可以从 items 推断
+export const VirtualWaterfall = VirtualWaterfallInner as <T = any>(
+    props: VirtualWaterfallProps<T> & React.RefAttributes<VirtualWaterfallHandle<T>>
+) => React.ReactElement | null
@@ -0,0 +1,117 @@
+import type {
+    Breakpoints,
+    GetItemImage,
+    GroupHeaderHeight,
+    ItemSpan,
+    LayoutSnapshot,
+    Placement,
+    ScrollDirection,
+    ScrollElementOption,
+    ScrollToOption,
+    SpaceOption,
+    TransitionOption,
+    WaterfallGroup
+} from './core'
+
+// 组件的属性
+export interface VirtualWaterfallOption<T = any> {
+    // 布局模式: waterfall(瀑布流) / justified(等高行，每行撑满容器宽度)
+    mode?: 'waterfall' | 'justified'
+    // 滚动方向: vertical(纵向) / horizontal(横向，列变成行，向右增长)
+    direction?: ScrollDirection
+    // 是否启用虚拟列表
+    virtual?: boolean
+    // item的唯一标识字段
+    rowKey?: keyof T
+    // 是否启用缓存, 默认启用
+    enableCache?: boolean
+    // 是否在 Web Worker 中计算瀑布流布局，新的布局计算完成之前继续展示之前的布局
+    // calcItemHeight 需要是宽度的一次函数，只支持内置的放置策略，justified 模式和 autoMeasure 时不生效
+    layoutWorker?: boolean
+    // item间隔
+    gap?: number
+    // 容器内边距
+    padding?: number | string
+    // 预加载屏数量 [top, bottom]
+    preloadScreenCount?: [number, number]
+    // item最小宽度
+    itemMinWidth?: number
+    // 最大列数
+    maxColumnCount?: number
+    // 最小列数
+    minColumnCount?: number
+    // 数据
+    items?: T[]
+    // 分组数据: [{ key, items, ...标题中使用的字段 }]，设置后 items 不生效，只支持 waterfall 模式
+    // 每组的标题通过 group-header 插槽渲染并占满整行，这一组的item从标题下方重新开始排列
+    groups?: WaterfallGroup<T>[]
+    // 分组标题的高度(横向滚动时为宽度)，或者按分组计算的方法，开启 autoMeasure 时作为预估高度
+    groupHeaderHeight?: GroupHeaderHeight<WaterfallGroup<T>>
+    // 分组标题是否吸顶：分组的内容在视口中时，标题停留在视口顶部，直到被下一组的标题推出
+    stickyHeader?: boolean
+    // 计算单个item高度的方法，开启 autoMeasure 时作为预估高度
+    calcItemHeight?: (item: T, itemWidth: number) => number
+    // 计算单个item占据的列数: 数字或者 'full'(占满整行)，用于横幅、广告等跨列的item
+    calcItemSpan?: (item: T, index: number) => ItemSpan
+    // 放置策略: shortest(高度最小的列) / sequential(按顺序从左到右) / balanced(列高尽量平衡) 或者自定义方法
+    placement?: Placement<T>
+    // justified 模式的目标行高
+    rowHeight?: number
+    // justified 模式中计算单个item的宽高比(宽 / 高)，默认使用item的 width / height
+    calcItemRatio?: (item: T, index: number) => number
+    // 是否自动测量item的真实高度
+    autoMeasure?: boolean
+    // 图片模式: 返回item的图片 { src, width, height }，按图片的宽高比预留位置，并在item中渲染图片
+    // 只加载视口和预加载屏中的图片，宽高未知时先使用 calcItemHeight / calcItemRatio 的预估值，加载后重新布局
+    image?: GetItemImage<T>
+    // 滚动容器: 元素、选择器或者window，默认使用最近的可滚动祖先元素
+    scrollElement?: ScrollElementOption
+    // 在上方插入或删除item时，保持视口中的item在屏幕中的位置不变
+    scrollAnchor?: boolean
+    // 响应式断点: 容器宽度 -> { columns, gap, padding, itemMinWidth }，设置的参数会覆盖对应的属性
+    breakpoints?: Breakpoints
+    // SSR: 容器还没有测量时使用的容器宽度(不包含内边距)，服务端渲染和客户端激活时按这个宽度计算布局
+    ssrWidth?: number
+    // SSR: 容器还没有测量时使用的列数，不传时根据 ssrWidth 计算；没有传入 ssrWidth 时按每列的最小宽度(itemMinWidth)估计容器宽度
+    initialColumns?: number
+    // SSR: 视口还没有测量时渲染的item数量
+    ssrItemCount?: number
+    // 布局变化时的过渡动画: true 使用默认参数，或者 { duration, easing, enter, leave }，用户设置了减少动画时不生效
+    transition?: boolean | TransitionOption
+    // 要恢复的布局快照(getSnapshot 导出)，第一次计算布局时直接使用其中的位置，并恢复滚动位置
+    restoreState?: LayoutSnapshot | null
+    // item在视口中的比例达到多少时触发 item-visible，(0, 1]，比视口还大的item按视口大小计算
+    visibilityThreshold?: number
+    // item保持可见多长时间(毫秒)后才触发 item-visible
+    visibilityDwell?: number
+    // 距离底部多少时触发加载更多
+    bottomDistance?: number
+    // 是否正在加载
+    loading?: boolean
+    // 是否已经没有更多数据
+    finished?: boolean
+    // 是否加载失败
+    error?: boolean
+}
+
+// 组件通过 ref 暴露的方法
+export interface VirtualWaterfallExpose<T = any> {
+    // 读取元素空间信息
+    withItemSpaces: (cb: (spaces: readonly SpaceOption<T>[]) => Promise<void> | void) => void
+    // 导出当前的布局快照
+    getSnapshot: () => LayoutSnapshot | undefined
+    // 恢复布局快照
+    restoreSnapshot: (snapshot: LayoutSnapshot) => void
+    // 滚动到指定索引的item，item渲染完成后返回它的包裹元素
+    scrollToIndex: (index: number, option?: ScrollToOption) => Promise<HTMLElement | undefined>
+    // 滚动到指定rowKey的item
+    scrollToKey: (key: unknown, option?: ScrollToOption) => Promise<HTMLElement | undefined>
+    // 滚动到指定的item
+    scrollToItem: (item: T, option?: ScrollToOption) => Promise<HTMLElement | undefined>
+    // 滚动到指定索引的分组的标题
+    scrollToGroup: (groupIndex: number, option?: ScrollToOption) => Promise<HTMLElement | undefined>
+    // 聚焦指定索引的item
+    focusIndex: (index: number) => Promise<void>
+    // item的内容变化后，重新计算它的高度
+    invalidate: (keyOrIndex: unknown) => void
+}
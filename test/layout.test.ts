@@ -0,0 +1,131 @@
+// 布局核心: 完整布局、追加元素时复用缓存、从失效的元素开始重新计算、只重排高度变化的列
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { applyItemHeights, computeLayout, type LayoutOption, type LayoutState } from '../src/vue-virtual-waterfall/core'
+
+interface Item {
+    id: number
+    height: number
+}
+
+const createItems = (heights: number[], from = 0): Item[] => heights.map((height, i) => ({ id: from + i, height }))
+
+// 记录 calcItemHeight 的调用次数，用来判断哪些元素被重新计算
+const createOption = (items: Item[]) => {
+    const calls: number[] = []
+    const option: LayoutOption<Item> = {
+        items,
+        columnCount: 3,
+        itemWidth: 100,
+        gap: 10,
+        calcItemHeight: item => {
+            calls.push(item.id)
+            return item.height
+        }
+    }
+    return { option, calls }
+}
+
+// 每个元素的 [列, top, height]
+const getPositions = (state: LayoutState<Item>) => state.spaces.toArray().map(space => [space.column, space.top, space.height])
+
+const heights = [100, 200, 150, 50, 80, 120]
+
+await test('computeLayout places every item in the shortest column', () => {
+    const { option } = createOption(createItems(heights))
+    const state = computeLayout(option)
+    assert.deepEqual(getPositions(state), [
+        [0, 0, 100],
+        [1, 0, 200],
+        [2, 0, 150],
+        [0, 110, 50],
+        [2, 160, 80],
+        [0, 170, 120]
+    ])
+    assert.deepEqual(state.columns, [[0, 3, 5], [1], [2, 4]])
+    assert.deepEqual(state.columnsTop, [300, 210, 250])
+    assert.equal(state.spaces.left(1), 110)
+    assert.equal(state.spaces.width(1), 100)
+})
+
+await test('appending items reuses the cached layout', () => {
+    const items = createItems(heights)
+    const { option, calls } = createOption(items)
+    const cache = computeLayout(option)
+    calls.length = 0
+
+    // 数据没有变化时直接返回缓存
+    assert.equal(computeLayout(option, cache), cache)
+    assert.deepEqual(calls, [])
+
+    const next = computeLayout({ ...option, items: [...items, ...createItems([60, 90], heights.length)] }, cache)
+    // 只计算新增元素的高度
+    assert.deepEqual(calls, [6, 7])
+    assert.deepEqual(getPositions(next).slice(0, heights.length), getPositions(cache))
+    assert.deepEqual(getPositions(next).slice(heights.length), [
+        [1, 210, 60],
+        [2, 250, 90]
+    ])
+    assert.deepEqual(next.columns, [[0, 3, 5], [1, 6], [2, 4, 7]])
+})
+
+await test('invalid indexes are laid out again from the first of them', () => {
+    const items = createItems(heights)
+    const { option, calls } = createOption(items)
+    const cache = computeLayout(option)
+    calls.length = 0
+
+    items[3].height = 200
+    const next = computeLayout(option, cache, [4, 3])
+    // 失效元素之前的元素直接复用
+    assert.deepEqual(calls, [3, 4, 5])
+    assert.deepEqual(getPositions(next).slice(0, 3), getPositions(cache).slice(0, 3))
+    assert.deepEqual(getPositions(next).slice(3), [
+        [0, 110, 200],
+        [2, 160, 80],
+        [1, 210, 120]
+    ])
+})
+
+await test('applyItemHeights only shifts the column of the changed item', () => {
+    const { option } = createOption(createItems(heights))
+    const state = computeLayout(option)
+
+    // 高度没有变化时返回原来的结果
+    assert.equal(applyItemHeights(state, new Map([[0, 100]])), state)
+
+    const next = applyItemHeights(state, new Map([[3, 70]]))
+    assert.notEqual(next.spaces, state.spaces)
+    // 元素所在的列不变，同一列下方的元素向下移动
+    assert.deepEqual(getPositions(next), [
+        [0, 0, 100],
+        [1, 0, 200],
+        [2, 0, 150],
+        [0, 110, 70],
+        [2, 160, 80],
+        [0, 190, 120]
+    ])
+    assert.deepEqual(next.columns, state.columns)
+    assert.deepEqual(next.columnsTop, [320, 210, 250])
+    // 原来的结果不受影响
+    assert.equal(state.spaces.top(5), 170)
+})
+
+await test('keyed items keep their column only while it is close to the shortest column', () => {
+    const items = createItems(heights)
+    const { option } = createOption(items)
+    const keyed: LayoutOption<Item> = { ...option, getItemKey: item => item.id }
+    const cache = computeLayout(keyed)
+
+    // 在开头插入一个很高的item，原来在第一列的item离高度最小的列太远，重新选择列
+    const next = computeLayout({ ...keyed, items: [...createItems([300], 10), ...items] }, cache)
+    assert.deepEqual(getPositions(next), [
+        [0, 0, 300],
+        [1, 0, 100],
+        [1, 110, 200],
+        [2, 0, 150],
+        [2, 160, 50],
+        [2, 220, 80],
+        [0, 310, 120]
+    ])
+})
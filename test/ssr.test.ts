@@ -0,0 +1,71 @@
+// 服务端渲染: 传入 ssrWidth / initialColumns 时，每次渲染出的item位置都相同，并且和布局核心的计算结果一致
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { createSSRApp, h } from 'vue'
+import { renderToString } from 'vue/server-renderer'
+import VirtualWaterfall from '../src/vue-virtual-waterfall/virtual-waterfall.vue'
+import { computeLayout, getItemWidth, getMinContainerWidth } from '../src/vue-virtual-waterfall/core'
+
+interface Item {
+    id: number
+    height: number
+}
+
+const items: Item[] = Array.from({ length: 50 }, (_, id) => ({ id, height: 120 + ((id * 37) % 200) }))
+const calcItemHeight = (item: Item) => item.height
+
+const render = (props: Record<string, unknown>) =>
+    renderToString(
+        createSSRApp({
+            render: () =>
+                h(VirtualWaterfall, { items, calcItemHeight, ...props }, { default: ({ item }: { item: Item }) => h('span', item.id) })
+        })
+    )
+
+// 渲染结果中每个item的位置: data-index -> left / top / width
+const getPositions = (html: string) => {
+    const positions = new Map<number, { left: number; top: number; width: number }>()
+    const pattern = /<div style="([^"]*)" data-index="(\d+)"/g
+    for (const [, style, index] of html.matchAll(pattern)) {
+        const [, left, top] = /translate\(([\d.]+)px, ([\d.]+)px\)/.exec(style)!
+        const [, width] = /width:([\d.]+)px/.exec(style)!
+        positions.set(Number(index), { left: Number(left), top: Number(top), width: Number(width) })
+    }
+    return positions
+}
+
+// 和布局核心计算出的位置比较
+const assertLayout = (html: string, containerWidth: number, columnCount: number, count: number) => {
+    const itemWidth = getItemWidth(containerWidth, columnCount, 15)
+    const { spaces } = computeLayout({ items, columnCount, itemWidth, gap: 15, calcItemHeight })
+    const positions = getPositions(html)
+    assert.equal(positions.size, count)
+    positions.forEach((position, index) => {
+        assert.deepEqual(position, { left: spaces.left(index), top: spaces.top(index), width: spaces.width(index) })
+    })
+}
+
+await test('ssrWidth and initialColumns render the same positions every time', async () => {
+    const props = { ssrWidth: 1200, initialColumns: 4, ssrItemCount: 12 }
+    const first = await render(props)
+    const second = await render(props)
+    assert.equal(first, second)
+    assertLayout(first, 1200, 4, 12)
+})
+
+await test('ssrWidth alone derives the column count', async () => {
+    const html = await render({ ssrWidth: 1000, ssrItemCount: 8 })
+    assert.equal(html, await render({ ssrWidth: 1000, ssrItemCount: 8 }))
+    // 1000 / 220 = 4 列
+    assertLayout(html, 1000, 4, 8)
+})
+
+await test('initialColumns without ssrWidth estimates the width from itemMinWidth', async () => {
+    const html = await render({ initialColumns: 3, ssrItemCount: 9 })
+    assert.equal(html, await render({ initialColumns: 3, ssrItemCount: 9 }))
+    assertLayout(html, getMinContainerWidth(3, 220, 15), 3, 9)
+})
+
+await test('nothing is rendered without hints', async () => {
+    assert.equal(getPositions(await render({})).size, 0)
+})
@@ -0,0 +1,105 @@
+// worker 布局: 高度参数的采样，以及按高度参数计算的布局和主线程的结果一致
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import {
+    computeLayout,
+    computeLayoutArrays,
+    createLayoutWorkerInput,
+    getLastColumns,
+    type LayoutArrays,
+    type LayoutOption,
+    type LayoutState
+} from '../src/vue-virtual-waterfall/core'
+
+interface Item {
+    id: number
+    ratio: number
+}
+
+const createItems = (count: number, from = 0): Item[] =>
+    Array.from({ length: count }, (_, i) => ({ id: from + i, ratio: 0.5 + (((from + i) * 7) % 10) / 10 }))
+
+// 记录 calcItemHeight 的调用，用来判断哪些item被重新采样
+const createCalcItemHeight = () => {
+    const calls: number[] = []
+    const calcItemHeight = (item: Item, width: number) => {
+        calls.push(item.id)
+        return item.ratio * width + 40
+    }
+    return { calcItemHeight, calls }
+}
+
+await test('createLayoutWorkerInput only samples new items when a previous sample is passed', () => {
+    const { calcItemHeight, calls } = createCalcItemHeight()
+    const items = createItems(10)
+    const input = createLayoutWorkerInput({ items, itemWidth: 200, calcItemHeight })!
+    assert.ok(input)
+    calls.length = 0
+
+    // 在开头插入一个item，并在末尾追加两个item
+    const next = [...createItems(1, 100), ...items, ...createItems(2, 10)]
+    const incremental = createLayoutWorkerInput({ items: next, itemWidth: 200, calcItemHeight }, { items, input })!
+    assert.deepEqual([...new Set(calls)].sort((a, b) => a - b), [10, 11, 100])
+    assert.deepEqual(incremental, createLayoutWorkerInput({ items: next, itemWidth: 200, calcItemHeight }))
+})
+
+await test('createLayoutWorkerInput checks linearity on a bounded sample', () => {
+    const { calcItemHeight, calls } = createCalcItemHeight()
+    const items = createItems(1000)
+    assert.ok(createLayoutWorkerInput({ items, itemWidth: 200, calcItemHeight }))
+    // 每个item采样两次，最多再检查 64 个item
+    assert.ok(calls.length <= 2 * items.length + 64)
+
+    // 不是一次函数时返回 undefined
+    const clamped = (item: Item, width: number) => Math.max(item.ratio * width, 600)
+    assert.equal(createLayoutWorkerInput({ items, itemWidth: 200, calcItemHeight: clamped }), undefined)
+})
+
+// worker 计算的结果和 computeLayout 相同
+const assertSameLayout = (arrays: LayoutArrays, state: LayoutState<Item>) => {
+    const { spaces } = state
+    assert.equal(arrays.tops.length, spaces.length)
+    for (let i = 0; i < spaces.length; i++) {
+        assert.deepEqual(
+            [arrays.columns[i], arrays.columnSpans[i], arrays.tops[i], arrays.lefts[i], arrays.heights[i], arrays.widths[i]],
+            [spaces.column(i), spaces.columnSpan(i), spaces.top(i), spaces.left(i), spaces.height(i), spaces.width(i)],
+            `item ${i}`
+        )
+    }
+    assert.deepEqual(Array.from(arrays.columnsTop), state.columnsTop)
+}
+
+const params = { columnCount: 4, itemWidth: 230, gap: 15 }
+const calcItemHeight = (item: Item, width: number) => item.ratio * width + 40
+const calcItemSpan = (item: Item) => (item.id % 13 === 0 ? 2 : 1)
+
+await test('computeLayoutArrays matches computeLayout', () => {
+    for (const placement of ['shortest', 'sequential', 'balanced'] as const) {
+        const option: LayoutOption<Item> = { ...params, items: createItems(60), calcItemHeight, calcItemSpan, placement }
+        const arrays = computeLayoutArrays(createLayoutWorkerInput(option)!, { ...params, placement })
+        assertSameLayout(arrays, computeLayout(option))
+    }
+})
+
+await test('computeLayoutArrays keeps existing items in their columns like a cached keyed layout', () => {
+    const items = createItems(60)
+    const option: LayoutOption<Item> = { ...params, items, calcItemHeight, calcItemSpan, getItemKey: item => item.id }
+    const cache = computeLayout(option)
+    const changes = [
+        // 在开头插入
+        [...createItems(2, 100), ...items],
+        // 删除中间的item
+        [...items.slice(0, 10), ...items.slice(13)],
+        // 追加
+        [...items, ...createItems(5, 60)]
+    ]
+    for (const next of changes) {
+        const nextOption = { ...option, items: next }
+        const expected = computeLayout(nextOption, cache)
+        const lastColumns = getLastColumns(nextOption, cache)
+        assert.ok(lastColumns)
+        assertSameLayout(computeLayoutArrays(createLayoutWorkerInput(nextOption)!, { ...params, placement: 'shortest', lastColumns }), expected)
+    }
+    // 缓存不能复用时从头计算
+    assert.equal(getLastColumns({ ...option, columnCount: 3 }, cache), undefined)
+})
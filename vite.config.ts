@@ -10,6 +10,7 @@ export default defineConfig(({ mode }) => {
         target: 'es2015',
         cssTarget: 'chrome61'
     }
+    let esbuild: Record<string, any> = {}
 
     if (mode === 'npm') {
         plugins = [
@@ -40,9 +41,55 @@ export default defineConfig(({ mode }) => {
         }
     }
 
+    // React 组件单独构建，输出到 dist/react，需要在 npm 模式之后执行，类型声明由 npm 模式生成
+    if (mode === 'npm-react') {
+        plugins = []
+        esbuild = {
+            jsx: 'automatic'
+        }
+        build = {
+            target: 'es2015',
+            copyPublicDir: false,
+            emptyOutDir: false,
+            lib: {
+                entry: 'src/vue-virtual-waterfall/react/index.ts',
+                formats: ['cjs', 'es'],
+                fileName: (format: string) => `react/index.${format === 'es' ? 'js' : 'cjs'}`
+            },
+            rollupOptions: {
+                external: ['react', 'react/jsx-runtime'],
+                output: {
+                    exports: 'named'
+                }
+            }
+        }
+    }
+
+    // Web Component 单独构建，输出到 dist/element，UMD 格式可以直接通过 <script> 引入
+    if (mode === 'npm-element') {
+        plugins = []
+        build = {
+            target: 'es2015',
+            copyPublicDir: false,
+            emptyOutDir: false,
+            lib: {
+                entry: 'src/vue-virtual-waterfall/element/index.ts',
+                formats: ['cjs', 'es', 'umd'],
+                name: 'VirtualWaterfallElement',
+                fileName: (format: string) => `element/index.${format === 'es' ? 'js' : format === 'umd' ? 'umd.cjs' : 'cjs'}`
+            },
+            rollupOptions: {
+                output: {
+                    exports: 'named'
+                }
+            }
+        }
+    }
+
     return {
         base,
         plugins,
+        esbuild,
         build
     }
 })